@@ -0,0 +1,88 @@
+// App-shell service worker: lets the converter load with no connectivity.
+// The built scripts and styles index.html refers to are cached at install
+// (the worker doesn't control the visit that registers it, so they would
+// otherwise never pass through it), other same-origin assets as they are
+// fetched, and navigations fall back to the cached index.html when offline.
+// Rate files aren't part of the shell: offline conversions must come from the
+// app's last-known tables, which carry their age, not from a bundled snapshot
+const CACHE_NAME = "currency-whisper-shell-v3";
+const SHELL_URLS = ["/", "/favicon.ico"];
+
+// Same-origin script, stylesheet and preload URLs in the page, e.g.
+// "/assets/index-CMM9I9lI.js" (Vite hashes their names on every build)
+function assetUrls(html) {
+  const urls = new Set();
+  for (const match of html.matchAll(/<(?:script|link)\b[^>]*?\b(?:src|href)="([^"]+)"/g)) {
+    const url = new URL(match[1], self.location.origin);
+    if (url.origin === self.location.origin) {
+      urls.add(url.pathname);
+    }
+  }
+  return [...urls];
+}
+
+async function precacheShell() {
+  const cache = await caches.open(CACHE_NAME);
+  const page = await fetch("/index.html", { cache: "reload" });
+  if (!page.ok) {
+    throw new Error(`Could not fetch index.html (${page.status})`);
+  }
+  const html = await page.clone().text();
+  await cache.put("/index.html", page);
+  await cache.addAll([...SHELL_URLS, ...assetUrls(html)]);
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell());
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys().then((keys) =>
+      Promise.all(
+        keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))
+      )
+    )
+  );
+  self.clients.claim();
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Rate APIs live on other origins and are cached by the app itself
+  if (request.method !== "GET" || url.origin !== self.location.origin) {
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put("/index.html", copy));
+          return response;
+        })
+        .catch(() => caches.match("/index.html"))
+    );
+    return;
+  }
+
+  // Stale-while-revalidate for scripts, styles and other static files
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      const network = fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+          }
+          return response;
+        })
+        .catch(() => cached);
+      return cached || network;
+    })
+  );
+});
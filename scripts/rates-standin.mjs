@@ -0,0 +1,100 @@
+// Tiny local stand-in for open.er-api.com, serving the same fixture files as
+// the in-app fixture provider. Point the app at it with:
+//
+//   VITE_CUSTOM_RATES_URL=http://localhost:8787/v6 npm run dev
+//
+// It also serves the sample ECB reference files under /ecb/ (made-up
+// numbers, kept out of public/ so they never ship as official rates).
+//
+// Failure scenarios are picked per request with ?scenario=... or for the
+// whole run with RATE_SCENARIO=...: timeout, rate-limited, malformed,
+// missing-currency.
+import { createServer } from "node:http";
+import { existsSync, readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+const PORT = Number(process.env.PORT) || 8787;
+const TIMEOUT_MS = Number(process.env.RATE_TIMEOUT_MS) || 30_000;
+const FIXTURES = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../fixtures/rates");
+
+function readFixture(...segments) {
+  return readFileSync(path.join(FIXTURES, ...segments), "utf8");
+}
+
+// Re-expresses an open.er-api style table against another base it quotes
+function rebase(table, base) {
+  const baseRate = table.rates[base];
+  if (!baseRate) {
+    return null;
+  }
+  const rates = Object.fromEntries(
+    Object.entries(table.rates).map(([code, rate]) => [code, Number((rate / baseRate).toPrecision(6))])
+  );
+  return { ...table, base_code: base, rates: { ...rates, [base]: 1 } };
+}
+
+function latestTable(base, file) {
+  const own = path.join(FIXTURES, "latest", `${base}.json`);
+  if (!file && existsSync(own)) {
+    return JSON.parse(readFileSync(own, "utf8"));
+  }
+  return rebase(JSON.parse(file ?? readFixture("latest", "USD.json")), base);
+}
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Expose-Headers": "Retry-After",
+    ...headers,
+  });
+  res.end(typeof body === "string" ? body : JSON.stringify(body, null, 2));
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const scenario = url.searchParams.get("scenario") ?? process.env.RATE_SCENARIO ?? "ok";
+
+  const ecbFile = url.pathname.match(/^\/ecb\/(eurofxref-(?:daily|hist)\.xml)$/);
+  if (ecbFile) {
+    console.log(`${new Date().toISOString()} ${req.method} ${url.pathname}`);
+    send(res, 200, readFixture("ecb", ecbFile[1]), { "Content-Type": "application/xml" });
+    return;
+  }
+
+  const match = url.pathname.match(/^\/v6\/latest\/([A-Za-z]{3,5})$/);
+
+  if (!match) {
+    send(res, 404, { result: "error", "error-type": "not-found" });
+    return;
+  }
+
+  const base = match[1].toUpperCase();
+  console.log(`${new Date().toISOString()} ${req.method} ${url.pathname} [${scenario}]`);
+
+  switch (scenario) {
+    case "timeout":
+      setTimeout(() => send(res, 504, { result: "error", "error-type": "timeout" }), TIMEOUT_MS);
+      return;
+    case "rate-limited":
+      send(res, 429, { result: "error", "error-type": "rate-limited" }, { "Retry-After": "30" });
+      return;
+    case "malformed":
+      send(res, 200, readFixture("errors", "malformed.json"));
+      return;
+    case "missing-currency": {
+      const table = latestTable(base, readFixture("errors", "missing-currency.json"));
+      send(res, 200, table ?? { result: "error", "error-type": "unsupported-code" });
+      return;
+    }
+    default: {
+      const table = latestTable(base);
+      send(res, 200, table ?? { result: "error", "error-type": "unsupported-code" });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Rate stand-in listening on http://localhost:${PORT}/v6/latest/USD`);
+});
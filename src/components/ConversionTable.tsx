@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { AlertTriangle, Copy, Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "@/components/ui/use-toast";
+import { getCurrency } from "@/lib/currencies";
+import { SubunitRef } from "@/lib/query";
+import { loadFavouriteCurrencies, saveFavouriteCurrencies } from "@/lib/favourites";
+
+export interface ConversionRow {
+  // The currency the row is about: a target, or the currency being compared
+  code: string;
+  // Set when the amount is in a sub-unit, e.g. sats for a BTC row
+  subunit?: SubunitRef;
+  // e.g. "€92.31 EUR"; absent when only the rate was asked for
+  amountText?: string;
+  // e.g. "1 USD = 0.9231 EUR"
+  rateText?: string;
+  providerName?: string;
+  warnings: string[];
+  // Why this row couldn't be converted, when it couldn't
+  error?: string;
+}
+
+interface ConversionTableProps {
+  rows: ConversionRow[];
+}
+
+async function copyToClipboard(text: string) {
+  try {
+    await navigator.clipboard.writeText(text);
+    toast({ title: "Copied", description: text });
+  } catch {
+    toast({ title: "Couldn't copy", description: text, variant: "destructive" });
+  }
+}
+
+// One row per currency of a multi-currency conversion or comparison, each
+// with its own rate and a button to copy the answer. The star adds the
+// currency to the favourites used by "all my favourite currencies".
+const ConversionTable = ({ rows }: ConversionTableProps) => {
+  const [favourites, setFavourites] = useState(loadFavouriteCurrencies);
+  const hasAmounts = rows.some((row) => row.amountText);
+
+  const toggleFavourite = (code: string) => {
+    const next = favourites.includes(code)
+      ? favourites.filter((favourite) => favourite !== code)
+      : [...favourites, code];
+    setFavourites(next);
+    saveFavouriteCurrencies(next);
+  };
+
+  return (
+    <Table className="mt-4 text-left">
+      <TableHeader>
+        <TableRow>
+          <TableHead>Currency</TableHead>
+          {hasAmounts && <TableHead className="text-right">Amount</TableHead>}
+          <TableHead>Rate</TableHead>
+          <TableHead className="w-20" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => {
+          const answer = row.amountText ?? row.rateText;
+          const favourite = favourites.includes(row.code);
+          return (
+            <TableRow key={`${row.code}:${row.subunit?.name ?? ""}`}>
+              <TableCell>
+                <span className="font-medium">{row.code}</span>
+                <span className="ml-2 text-gray-500">
+                  {getCurrency(row.code)?.name}
+                  {row.subunit && ` (${row.subunit.name})`}
+                </span>
+              </TableCell>
+              {hasAmounts && (
+                <TableCell className="text-right font-medium text-blue-800">{row.amountText}</TableCell>
+              )}
+              <TableCell className="text-gray-700">
+                {row.error ? (
+                  <span className="text-red-600">{row.error}</span>
+                ) : (
+                  <>
+                    {row.rateText}
+                    {row.providerName && (
+                      <span className="block text-xs text-gray-500">{row.providerName}</span>
+                    )}
+                  </>
+                )}
+                {row.warnings.map((warning) => (
+                  <span key={warning} className="mt-1 flex items-center gap-1 text-xs text-amber-700">
+                    <AlertTriangle className="h-3 w-3 shrink-0" /> {warning}
+                  </span>
+                ))}
+              </TableCell>
+              <TableCell className="text-right">
+                <div className="flex justify-end">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    aria-label={favourite ? `Remove ${row.code} from favourites` : `Add ${row.code} to favourites`}
+                    aria-pressed={favourite}
+                    onClick={() => toggleFavourite(row.code)}
+                  >
+                    <Star className={favourite ? "h-4 w-4 fill-amber-400 text-amber-500" : "h-4 w-4"} />
+                  </Button>
+                  {answer && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label={`Copy ${row.code} result`}
+                      onClick={() => copyToClipboard(answer)}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default ConversionTable;
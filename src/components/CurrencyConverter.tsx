@@ -1,9 +1,11 @@
 
-import { useState, FormEvent, useEffect } from "react";
-import { Loader2, ArrowRight } from "lucide-react";
+import { useState, FormEvent, useEffect, useRef } from "react";
+import { Loader2, ArrowRight, AlertTriangle, CalendarIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { toast } from "@/components/ui/use-toast";
 import { 
   Select, 
@@ -20,43 +22,168 @@ import {
   FormLabel
 } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
+import {
+  CURRENCY_LIST,
+  CURRENCY_SYMBOLS,
+  WeightUnit,
+  amountFractionDigits,
+  formatMoney,
+  fromTroyOunces,
+  getCurrency,
+  toTroyOunces,
+} from "@/lib/currencies";
+import { format, parseISO } from "date-fns";
+import ConversionTable, { ConversionRow } from "@/components/ConversionTable";
+import OfflineBanner from "@/components/OfflineBanner";
+import RateHistoryChart from "@/components/RateHistoryChart";
+import RateImportDialog from "@/components/RateImportDialog";
+import RateProvenance from "@/components/RateProvenance";
+import SpreadComparison from "@/components/SpreadComparison";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+import { loadFavouriteCurrencies } from "@/lib/favourites";
+import {
+  AmountPhrase,
+  CurrencyRef,
+  SubunitRef,
+  isConversionTarget,
+  isFirstOfUnit,
+  parseQuery,
+} from "@/lib/query";
+import {
+  ChainResult,
+  DEFAULT_PROVIDER_ID,
+  PairRate,
+  ISO_DAY,
+  RateChainError,
+  RateLookup,
+  RateOverride,
+  StaleRatesError,
+  getProviderChain,
+  getFiatRateProviders,
+  getRateProvider,
+  RequestOptions,
+  isAbortError,
+  isBusinessDay,
+  lookupRate,
+} from "@/lib/rates";
 
 interface CurrencyConverterProps {
   setIsLoading: (isLoading: boolean) => void;
 }
 
+interface ConversionResult {
+  text: string;
+  fromCurrency: string;
+  toCurrency: string;
+  amount: number;
+  convertedAmount: number;
+  // The amount at the live mid rate: differs from convertedAmount under a
+  // corporate rate, and is missing when the live rate couldn't be fetched
+  midAmount?: number;
+  // Set when a metal amount was given or asked for by weight, or the answer
+  // is in a sub-unit such as sats, so amounts aren't in currency units
+  hasUnits: boolean;
+  // The question was about the rate, not an amount
+  rateOnly: boolean;
+  // e.g. "1 EUR = 89.8234 INR"
+  rateText: string;
+  // Intermediate currency when the rate was derived as a cross rate
+  via?: string;
+  // Name of the provider that actually served the rate
+  providerName: string;
+  // Provider timestamp of the rate table the number came from
+  asOf: number;
+  cached: boolean;
+  // Served from last-known rates because no provider was reachable
+  offline: boolean;
+  // Explains which business day a historical rate is from
+  dateNote?: string;
+  warnings: string[];
+  // The quote the result was computed from, for the provenance details
+  pair: PairRate;
+  // Set when a corporate/manual override was used instead of the live rate
+  corporate?: CorporateRateInfo;
+  // The rate is a central bank's official reference rate
+  official: boolean;
+  // Range the history chart opens at, when the query asked for one
+  historyDays?: number;
+  // How a written-out amount was read, e.g. 'Read "2.5m" as 2,500,000'
+  amountNote?: string;
+}
+
+// A conversion into several currencies, or a comparison, shown as a table
+interface ConversionTableResult {
+  // e.g. "$100.00 USD in 3 currencies"
+  title: string;
+  rows: ConversionRow[];
+  amountNote?: string;
+  // Oldest last-known rate used, when some rows were served offline
+  lastKnownAt?: number;
+}
+
+// One row of a table: the currency it's about and the pair to convert
+interface RowPair {
+  code: string;
+  from: string;
+  to: string;
+  units?: ConversionUnits;
+}
+
+interface CorporateRateInfo {
+  // The override that was used, for its note and provenance
+  override: RateOverride;
+  // Live mid rate at the time, when a provider could be reached
+  liveRateText?: string;
+  // Override versus live mid: percent of the rate, and in target currency
+  difference?: { percent: number; amount: number };
+}
+
+// Weights that metal amounts were given or asked in, instead of troy ounces
+interface ConversionUnits {
+  from?: WeightUnit;
+  to?: WeightUnit;
+  // Sub-unit the answer was asked in, e.g. sats for BTC
+  toSubunit?: SubunitRef;
+}
+
+interface ConversionOptions extends RequestOptions {
+  date?: string;
+  units?: ConversionUnits;
+  // Answer with the rate itself rather than a converted amount
+  rateOnly?: boolean;
+}
+
+interface RetryStatus {
+  attempt: number;
+  maxAttempts: number;
+}
+
 interface ConversionFormValues {
   amount: string;
   fromCurrency: string;
   toCurrency: string;
+  // Convert at the rate of a past day instead of the latest one
+  date?: Date;
 }
 
-// Common currency codes with their symbols
-const CURRENCY_LIST = [
-  { code: "USD", name: "US Dollar", symbol: "$" },
-  { code: "EUR", name: "Euro", symbol: "€" },
-  { code: "GBP", name: "British Pound", symbol: "£" },
-  { code: "JPY", name: "Japanese Yen", symbol: "¥" },
-  { code: "INR", name: "Indian Rupee", symbol: "₹" },
-  { code: "CAD", name: "Canadian Dollar", symbol: "C$" },
-  { code: "AUD", name: "Australian Dollar", symbol: "A$" },
-  { code: "CHF", name: "Swiss Franc", symbol: "CHF" },
-  { code: "CNY", name: "Chinese Yuan", symbol: "¥" },
-  { code: "RUB", name: "Russian Ruble", symbol: "₽" },
-  { code: "MXN", name: "Mexican Peso", symbol: "$" },
-  { code: "BRL", name: "Brazilian Real", symbol: "R$" },
-];
-
-// Currency symbols mapping for formatting
-const CURRENCY_SYMBOLS: Record<string, string> = Object.fromEntries(
-  CURRENCY_LIST.map(currency => [currency.code, currency.symbol])
-);
-
 const CurrencyConverter = ({ setIsLoading }: CurrencyConverterProps) => {
   const [query, setQuery] = useState("");
-  const [result, setResult] = useState<string | null>(null);
+  const [result, setResult] = useState<ConversionResult | null>(null);
+  const [table, setTable] = useState<ConversionTableResult | null>(null);
   const [isConverting, setIsConverting] = useState(false);
   const [usingNaturalLanguage, setUsingNaturalLanguage] = useState(true);
+  const [providerId, setProviderId] = useState(DEFAULT_PROVIDER_ID);
+  // Changes when rate tables are imported or removed
+  const [rateSources, setRateSources] = useState(getFiatRateProviders);
+  const [retryStatus, setRetryStatus] = useState<RetryStatus | null>(null);
+  const isOnline = useOnlineStatus();
+  // In-flight conversion and a counter identifying the latest one, so a
+  // superseded response can never overwrite a newer result
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const requestIdRef = useRef(0);
+
+  // Abort whatever is still running when the converter unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   const form = useForm<ConversionFormValues>({
     defaultValues: {
@@ -66,62 +193,203 @@ const CurrencyConverter = ({ setIsLoading }: CurrencyConverterProps) => {
     }
   });
 
-  const handleStructuredSubmit = async (data: ConversionFormValues) => {
-    const { amount, fromCurrency, toCurrency } = data;
-    const numericAmount = parseFloat(amount.replace(/,/g, ""));
+  // Looks up the pair through the provider chain, starting at the selected
+  // source, and builds the result to show
+  const convert = async (
+    amount: number,
+    fromCurrency: string,
+    toCurrency: string,
+    { date, units = {}, rateOnly = false, signal, onRetry }: ConversionOptions = {}
+  ): Promise<ConversionResult> => {
+    const chain = getProviderChain(providerId, [fromCurrency, toCurrency]);
+    // Into a sub-unit of the same currency ("1 btc in sats") the rate is 1
+    const lookup: RateLookup = fromCurrency === toCurrency
+      ? {
+          pair: { from: fromCurrency, to: toCurrency, rate: 1, base: fromCurrency, updatedAt: Date.now(), provider: chain[0].id },
+          failures: [],
+          offline: false,
+        }
+      : await lookupRate(chain, fromCurrency, toCurrency, { date, signal, onRetry });
 
-    if (isNaN(numericAmount)) {
-      toast({
-        title: "Invalid amount",
-        description: "Please enter a valid number",
-        variant: "destructive",
-      });
-      return;
+    const { pair, offline, override, liveRate } = lookup;
+    const provider = getRateProvider(pair.provider);
+    // Metal rates are per troy ounce
+    const sourceAmount = units.from ? toTroyOunces(amount, units.from) : amount;
+    const convertedOunces = sourceAmount * pair.rate;
+    const convertedWhole = units.to ? fromTroyOunces(convertedOunces, units.to) : convertedOunces;
+    const convertedAmount = convertedWhole * (units.toSubunit?.perUnit ?? 1);
+    let midAmount: number | undefined = convertedAmount;
+    if (override) {
+      midAmount = liveRate !== undefined ? convertedAmount * (liveRate / pair.rate) : undefined;
     }
 
+    return {
+      text: rateOnly
+        ? formatRateAnswer(fromCurrency, toCurrency, pair.rate, pair.precision)
+        : formatCurrencyResult(amount, fromCurrency, toCurrency, convertedAmount, pair.date, units, pair.precision),
+      fromCurrency,
+      toCurrency,
+      amount,
+      convertedAmount,
+      midAmount,
+      hasUnits: !!(units.from || units.to || units.toSubunit),
+      rateOnly,
+      rateText: `1 ${fromCurrency} = ${formatRate(pair.rate, pair.precision)} ${toCurrency}`,
+      via: pair.path?.length === 3 ? pair.path[1] : undefined,
+      providerName: override ? "Corporate rate" : provider.name,
+      asOf: pair.updatedAt,
+      cached: !!pair.cached,
+      offline,
+      dateNote: date && pair.date && pair.date !== date
+        ? `${describeMissingDay(date)}, so the rate from ${format(parseISO(pair.date), "PPP")} was used.`
+        : undefined,
+      warnings: describeRateWarnings(lookup, toCurrency),
+      pair,
+      official: !override && !!provider.official,
+      corporate: override && {
+        override,
+        liveRateText: liveRate !== undefined
+          ? `1 ${fromCurrency} = ${formatRate(liveRate, pair.precision)} ${toCurrency}`
+          : undefined,
+        difference: liveRate !== undefined
+          ? {
+              percent: ((pair.rate - liveRate) / liveRate) * 100,
+              amount: convertedAmount - midAmount!,
+            }
+          : undefined,
+      },
+    };
+  };
+
+  // Converts each pair in turn, so later rows can reuse the rate table the
+  // first one cached. A row that fails shows its error instead of failing
+  // the whole table, unless every row fails.
+  const convertRows = async (
+    pairs: RowPair[],
+    amount: number,
+    options: ConversionOptions
+  ): Promise<Pick<ConversionTableResult, "rows" | "lastKnownAt">> => {
+    const rows: ConversionRow[] = [];
+    let lastKnownAt: number | undefined;
+    let firstError: unknown;
+
+    for (const { code, from, to, units } of pairs) {
+      try {
+        const converted = await convert(amount, from, to, { ...options, units });
+        rows.push({
+          code,
+          subunit: units?.toSubunit,
+          amountText: converted.rateOnly ? undefined : formatRowAmount(converted.convertedAmount, to, units, converted.pair.precision),
+          rateText: converted.rateText + (converted.via ? ` (via ${converted.via})` : ""),
+          providerName: converted.providerName + (converted.cached ? " (cached)" : ""),
+          warnings: converted.warnings,
+        });
+        if (converted.offline) {
+          lastKnownAt = Math.min(lastKnownAt ?? Infinity, converted.asOf);
+        }
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        firstError = firstError ?? error;
+        rows.push({ code, subunit: units?.toSubunit, warnings: [], error: describeConversionError(error) });
+      }
+    }
+
+    if (rows.every((row) => row.error)) {
+      throw firstError;
+    }
+    return { rows, lastKnownAt };
+  };
+
+  // Cancels the in-flight conversion and forgets about it
+  const cancelConversion = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    requestIdRef.current += 1;
+    setIsConverting(false);
+    setRetryStatus(null);
+    setIsLoading(false);
+  };
+
+  // Runs a conversion as the latest request: earlier ones are aborted, and
+  // only this one may update the result and loading state. show puts the
+  // answer on screen (a single result or a table).
+  const runConversion = async <T,>(
+    task: (request: RequestOptions) => Promise<T>,
+    show: (next: T) => void
+  ) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const requestId = ++requestIdRef.current;
+    const isLatest = () => requestId === requestIdRef.current;
+
     setIsConverting(true);
+    setRetryStatus(null);
     setIsLoading(true);
     setResult(null);
+    setTable(null);
 
-    try {
-      // Using a free API that doesn't require API key
-      const response = await fetch(
-        `https://open.er-api.com/v6/latest/${fromCurrency}`
-      );
-      
-      if (!response.ok) {
-        throw new Error("Failed to fetch exchange rate data");
+    const onRetry = (attempt: number, maxAttempts: number) => {
+      if (isLatest()) {
+        setRetryStatus({ attempt, maxAttempts });
       }
-      
-      const data = await response.json();
-      
-      if (data && data.rates && data.rates[toCurrency]) {
-        const rate = data.rates[toCurrency];
-        const convertedAmount = numericAmount * rate;
-        
-        // Format the result nicely
-        const formattedResult = formatCurrencyResult(
-          numericAmount, 
-          fromCurrency, 
-          toCurrency, 
-          convertedAmount
-        );
-        
-        setResult(formattedResult);
-      } else {
-        throw new Error("Invalid conversion data received");
+    };
+
+    try {
+      const next = await task({ signal: controller.signal, onRetry });
+      if (isLatest()) {
+        show(next);
       }
     } catch (error) {
+      if (isAbortError(error) || !isLatest()) {
+        return;
+      }
       console.error("Conversion error:", error);
       toast({
         title: "Conversion failed",
-        description: "There was an error converting your currency. Please try again.",
+        description: describeConversionError(error),
         variant: "destructive",
       });
     } finally {
-      setIsConverting(false);
-      setIsLoading(false);
+      if (isLatest()) {
+        abortControllerRef.current = null;
+        setIsConverting(false);
+        setRetryStatus(null);
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const switchMode = (naturalLanguage: boolean) => {
+    if (naturalLanguage !== usingNaturalLanguage) {
+      cancelConversion();
     }
+    setUsingNaturalLanguage(naturalLanguage);
+  };
+
+  const handleStructuredSubmit = async (data: ConversionFormValues) => {
+    const { amount, fromCurrency, toCurrency, date } = data;
+    const numericAmount = parseFloat(amount.replace(/,/g, ""));
+
+    if (isNaN(numericAmount)) {
+      toast({
+        title: "Invalid amount",
+        description: "Please enter a valid number",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await runConversion(
+      (request) =>
+        convert(numericAmount, fromCurrency, toCurrency, {
+          date: date && format(date, ISO_DAY),
+          ...request,
+        }),
+      setResult
+    );
   };
 
   const handleNaturalLanguageSubmit = async (e: FormEvent) => {
@@ -135,83 +403,167 @@ const CurrencyConverter = ({ setIsLoading }: CurrencyConverterProps) => {
       return;
     }
 
-    setIsConverting(true);
-    setIsLoading(true);
-    setResult(null);
+    const parsed = parseQuery(query);
 
-    try {
-      const extractionResult = extractCurrencyInfo(query);
-      
-      if (!extractionResult.success) {
-        toast({
-          title: "Couldn't understand query",
-          description: extractionResult.error,
-          variant: "destructive",
-        });
-        setIsConverting(false);
-        setIsLoading(false);
-        return;
-      }
+    if (parsed.ok === false) {
+      toast({
+        title: "Couldn't understand query",
+        description: parsed.error.message,
+        variant: "destructive",
+      });
+      return;
+    }
 
-      const { amount, fromCurrency, toCurrency } = extractionResult;
-      
-      // Using a free API that doesn't require API key
-      const response = await fetch(
-        `https://open.er-api.com/v6/latest/${fromCurrency}`
-      );
-      
-      if (!response.ok) {
-        throw new Error("Failed to fetch exchange rate data");
+    const { intent } = parsed;
+    switch (intent.kind) {
+      case "convert":
+        await runConversion(
+          async (request) => ({
+            ...(await convert(intent.amount.value, intent.from.code, intent.to.code, {
+              date: intent.date?.date,
+              units: { from: intent.from.unit, to: intent.to.unit, toSubunit: intent.to.subunit },
+              ...request,
+            })),
+            amountNote: describeInterpretedAmount(intent.amount),
+          }),
+          setResult
+        );
+        break;
+      case "convert-many": {
+        // Named targets first, then the favourites, each once
+        const favourites = intent.favourites ? loadFavouriteCurrencies().map((code) => ({ code })) : [];
+        const targets: Pick<CurrencyRef, "code" | "unit" | "subunit">[] = [...intent.to, ...favourites]
+          .filter(isFirstOfUnit)
+          .filter((target) => isConversionTarget(target, intent.from));
+        if (targets.length === 0) {
+          toast({
+            title: "No favourite currencies yet",
+            description: "Star currencies in a results table to add them to your favourites.",
+          });
+          break;
+        }
+
+        const { amount, from, date } = intent;
+        await runConversion(
+          async (request) => ({
+            title: describeTableTitle(amount?.value, from, targets.length, date?.date),
+            amountNote: amount && describeInterpretedAmount(amount),
+            ...(await convertRows(
+              targets.map((target) => ({
+                code: target.code,
+                from: from.code,
+                to: target.code,
+                units: { from: from.unit, to: target.unit, toSubunit: target.subunit },
+              })),
+              amount?.value ?? 1,
+              { date: date?.date, rateOnly: !amount, ...request }
+            )),
+          }),
+          setTable
+        );
+        break;
       }
-      
-      const data = await response.json();
-      
-      if (data && data.rates && data.rates[toCurrency]) {
-        const rate = data.rates[toCurrency];
-        const convertedAmount = amount * rate;
-        
-        // Format the currencies properly
-        const formattedResult = formatCurrencyResult(
-          amount, 
-          fromCurrency, 
-          toCurrency, 
-          convertedAmount
+      case "rate":
+        await runConversion(
+          (request) =>
+            convert(1, intent.from.code, intent.to.code, {
+              date: intent.date?.date,
+              rateOnly: true,
+              ...request,
+            }),
+          setResult
+        );
+        break;
+      case "history": {
+        // The chart, under the rate or the amount asked about
+        const { amount } = intent;
+        await runConversion(
+          async (request) => ({
+            ...(await convert(amount?.value ?? 1, intent.from.code, intent.to.code, {
+              rateOnly: !amount,
+              units: { from: intent.from.unit, to: intent.to.unit, toSubunit: intent.to.subunit },
+              ...request,
+            })),
+            amountNote: amount && describeInterpretedAmount(amount),
+            historyDays: intent.days,
+          }),
+          setResult
         );
-        
-        setResult(formattedResult);
-      } else {
-        throw new Error("Invalid conversion data received");
+        break;
+      }
+      case "compare": {
+        // Each currency's rate in the base, e.g. "1 EUR = 1.08 USD"
+        const { base, others, date } = intent;
+        await runConversion(
+          async (request) => ({
+            title: `${others.map((other) => other.code).join(", ")} against ${base.code}` +
+              (date ? ` on ${format(parseISO(date.date), "PPP")}` : ""),
+            ...(await convertRows(
+              others.map((other) => ({ code: other.code, from: other.code, to: base.code })),
+              1,
+              { date: date?.date, rateOnly: true, ...request }
+            )),
+          }),
+          setTable
+        );
+        break;
       }
-    } catch (error) {
-      console.error("Conversion error:", error);
-      toast({
-        title: "Conversion failed",
-        description: "There was an error converting your currency. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsConverting(false);
-      setIsLoading(false);
     }
   };
 
+  const convertingLabel = retryStatus
+    ? `Retrying (${retryStatus.attempt}/${retryStatus.maxAttempts})...`
+    : "Converting...";
+
   return (
     <div>
+      {(!isOnline || result?.offline || table?.lastKnownAt) && (
+        <OfflineBanner
+          isOnline={isOnline}
+          lastKnownAt={result?.offline ? result.asOf : table?.lastKnownAt}
+        />
+      )}
+
       <div className="mb-6 space-y-2">
         <div className="flex justify-between items-center">
           <h3 className="text-lg font-medium">Conversion Method</h3>
+          <div className="flex items-center gap-2">
+            <Select value={providerId} onValueChange={setProviderId} disabled={isConverting}>
+              <SelectTrigger className="w-auto" aria-label="Rate source">
+                <SelectValue placeholder="Rate source" />
+              </SelectTrigger>
+              <SelectContent>
+                {rateSources.map((provider) => (
+                  <SelectItem key={provider.id} value={provider.id}>
+                    {provider.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <RateImportDialog
+              disabled={isConverting}
+              onImported={(importedId) => {
+                setRateSources(getFiatRateProviders());
+                setProviderId(importedId);
+              }}
+              onRemoved={(removedId) => {
+                setRateSources(getFiatRateProviders());
+                setProviderId((current) => (current === removedId ? DEFAULT_PROVIDER_ID : current));
+              }}
+            />
+          </div>
         </div>
         <div className="flex gap-2">
           <Button
             variant={usingNaturalLanguage ? "default" : "outline"}
-            onClick={() => setUsingNaturalLanguage(true)}
+            onClick={() => switchMode(true)}
             className="flex-1"
           >
             Natural Language
           </Button>
           <Button
             variant={!usingNaturalLanguage ? "default" : "outline"}
-            onClick={() => setUsingNaturalLanguage(false)}
+            onClick={() => switchMode(false)}
             className="flex-1"
           >
             Structured Form
@@ -237,7 +589,7 @@ const CurrencyConverter = ({ setIsLoading }: CurrencyConverterProps) => {
           >
             {isConverting ? (
               <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Converting...
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> {convertingLabel}
               </>
             ) : (
               "Convert Currency"
@@ -323,6 +675,51 @@ const CurrencyConverter = ({ setIsLoading }: CurrencyConverterProps) => {
                 )}
               />
             </div>
+
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Rate Date</FormLabel>
+                  <div className="flex gap-2">
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            variant="outline"
+                            className="flex-1 justify-start text-left font-normal"
+                            disabled={isConverting}
+                          >
+                            <CalendarIcon className="mr-2 h-4 w-4" />
+                            {field.value ? format(field.value, "PPP") : "Latest rates"}
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={field.value}
+                          onSelect={field.onChange}
+                          disabled={(day) => day > new Date()}
+                          initialFocus
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    {field.value && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => field.onChange(undefined)}
+                        disabled={isConverting}
+                      >
+                        Clear
+                      </Button>
+                    )}
+                  </div>
+                </FormItem>
+              )}
+            />
             
             <Button 
               type="submit" 
@@ -331,7 +728,7 @@ const CurrencyConverter = ({ setIsLoading }: CurrencyConverterProps) => {
             >
               {isConverting ? (
                 <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Converting...
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" /> {convertingLabel}
                 </>
               ) : (
                 "Convert Currency"
@@ -345,108 +742,211 @@ const CurrencyConverter = ({ setIsLoading }: CurrencyConverterProps) => {
         <Card className="mt-6 p-6 bg-gradient-to-r from-blue-50 to-teal-50 border-blue-200">
           <div className="text-center">
             <h3 className="text-xl font-medium text-gray-800 mb-2">Conversion Result</h3>
-            <p className="text-2xl font-bold text-blue-800">{result}</p>
+            <p className="text-2xl font-bold text-blue-800">{result.text}</p>
+            {result.amountNote && (
+              <p className="mt-1 text-sm text-gray-600">{result.amountNote}</p>
+            )}
+            {!result.rateOnly ? (
+              <p className="mt-2 text-sm text-gray-700">
+                {result.rateText}
+                {result.via && ` (cross rate via ${result.via})`}
+              </p>
+            ) : result.via && (
+              <p className="mt-2 text-sm text-gray-700">Cross rate via {result.via}</p>
+            )}
+            {result.corporate ? (
+              <div className="mt-2 text-sm text-gray-700">
+                <span className="inline-block rounded-full bg-evergreen px-2 py-0.5 text-xs font-medium text-white">
+                  Corporate rate
+                </span>
+                {result.corporate.override.note && (
+                  <span className="ml-2 text-gray-600">{result.corporate.override.note}</span>
+                )}
+                <p className="mt-1 text-gray-600">{describeCorporateDifference(result)}</p>
+              </div>
+            ) : result.official ? (
+              <div className="mt-2 text-sm text-gray-700">
+                <span className="inline-block rounded-full bg-blue-800 px-2 py-0.5 text-xs font-medium text-white">
+                  Official reference rate
+                </span>
+                <p className="mt-1 text-gray-600">
+                  {result.providerName}, published {format(result.asOf, "PPp")}
+                  {result.cached && " (cached)"}. Reference rates are published for information
+                  purposes only.
+                </p>
+              </div>
+            ) : (
+              <p className="mt-1 text-sm text-gray-600">
+                Rate provided by {result.providerName}, as of {format(result.asOf, "PPp")}
+                {result.cached && " (cached)"}
+              </p>
+            )}
+            {result.dateNote && (
+              <p className="mt-2 text-sm text-gray-600">{result.dateNote}</p>
+            )}
+            {result.warnings.map((warning) => (
+              <p key={warning} className="mt-2 flex items-center justify-center gap-1 text-sm text-amber-700">
+                <AlertTriangle className="h-4 w-4 shrink-0" /> {warning}
+              </p>
+            ))}
+            <RateProvenance
+              pair={result.pair}
+              providerName={result.providerName}
+              offline={result.offline}
+              override={result.corporate?.override}
+            />
           </div>
+          {!result.hasUnits && !result.rateOnly && result.midAmount !== undefined && (
+            <SpreadComparison
+              amount={result.amount}
+              convertedAmount={result.midAmount}
+              fromCurrency={result.fromCurrency}
+              toCurrency={result.toCurrency}
+              providerId={providerId}
+            />
+          )}
+          {!result.offline && (
+            <RateHistoryChart
+              fromCurrency={result.fromCurrency}
+              toCurrency={result.toCurrency}
+              providerId={providerId}
+              initialDays={result.historyDays}
+            />
+          )}
+        </Card>
+      )}
+
+      {table && (
+        <Card className="mt-6 p-6 bg-gradient-to-r from-blue-50 to-teal-50 border-blue-200">
+          <div className="text-center">
+            <h3 className="text-xl font-medium text-gray-800">{table.title}</h3>
+            {table.amountNote && (
+              <p className="mt-1 text-sm text-gray-600">{table.amountNote}</p>
+            )}
+          </div>
+          <ConversionTable rows={table.rows} />
         </Card>
       )}
     </div>
   );
 };
 
-// Helper function to extract currency information from the query
-function extractCurrencyInfo(query: string) {
-  // Common currency codes and aliases
-  const currencyCodes = {
-    "usd": "USD", "dollar": "USD", "dollars": "USD", "$": "USD",
-    "eur": "EUR", "euro": "EUR", "euros": "EUR", "€": "EUR",
-    "gbp": "GBP", "pound": "GBP", "pounds": "GBP", "£": "GBP",
-    "jpy": "JPY", "yen": "JPY", "¥jpy": "JPY",
-    "inr": "INR", "rupee": "INR", "rupees": "INR", "rs": "INR", "₹": "INR",
-    "cad": "CAD", "canadian dollar": "CAD", "c$": "CAD",
-    "aud": "AUD", "australian dollar": "AUD", "a$": "AUD",
-    "chf": "CHF", "franc": "CHF", "francs": "CHF",
-    "cny": "CNY", "yuan": "CNY", "rmb": "CNY", "¥cny": "CNY",
-  };
+// Helper function to compare a corporate rate with the live mid rate
+function describeCorporateDifference({ corporate, toCurrency, hasUnits, pair }: ConversionResult): string {
+  if (!corporate?.liveRateText || !corporate.difference) {
+    return "The live mid rate could not be fetched for comparison.";
+  }
 
-  // Normalize query to lowercase
-  const normalizedQuery = query.toLowerCase();
-  
-  // Amount regex - matching numbers with optional decimal points and commas
-  const amountRegex = /\b(\d{1,3}(,\d{3})*(\.\d+)?|\d+(\.\d+)?)\b/;
-  const amountMatch = normalizedQuery.match(amountRegex);
-  
-  if (!amountMatch) {
-    return { 
-      success: false, 
-      error: "Couldn't identify an amount in your query. Please specify an amount to convert." 
-    };
+  const { percent, amount } = corporate.difference;
+  const sign = percent >= 0 ? "+" : "-";
+  // Weight and sub-unit conversions aren't in currency units, so only the rate is compared
+  const inMoney = hasUnits ? "" : ` (${sign}${formatMoney(Math.abs(amount), toCurrency, pair.precision)})`;
+  return `Live mid rate: ${corporate.liveRateText}. The corporate rate differs by ` +
+    `${sign}${Math.abs(percent).toFixed(2)}%${inMoney}.`;
+}
+
+// Helper function to list what the user should double-check about a rate
+function describeRateWarnings({ failures, divergence, jump }: ChainResult, toCurrency: string): string[] {
+  const warnings = failures
+    .filter((failure) => failure.invalid)
+    .map((failure) => `${failure.message}, so it was skipped.`);
+
+  if (divergence) {
+    warnings.push(
+      `${getRateProvider(divergence.provider).name} quotes ${divergence.rate} ` +
+      `(${divergence.percent.toFixed(2)}% different). Double-check before relying on this rate.`
+    );
   }
-  
-  // Parse amount (removing commas)
-  const amount = parseFloat(amountMatch[0].replace(/,/g, ""));
-  
-  // First, find currencies in the query
-  let fromCurrency: string | null = null;
-  let toCurrency: string | null = null;
-  
-  // Look for 'from X to Y' pattern or similar
-  const conversionPatterns = [
-    /from\s+(\w+)\s+to\s+(\w+)/i,
-    /(\w+)\s+to\s+(\w+)/i,
-    /convert\s+[^a-zA-Z]+\s+(\w+)\s+to\s+(\w+)/i,
-    /exchange\s+[^a-zA-Z]+\s+(\w+)\s+to\s+(\w+)/i,
-    /(\w+)\s+in\s+(\w+)/i,
-  ];
-  
-  for (const pattern of conversionPatterns) {
-    const match = normalizedQuery.match(pattern);
-    if (match) {
-      // Check if the matched words are currency codes or aliases
-      const source = match[1].toLowerCase();
-      const target = match[2].toLowerCase();
-      
-      if (currencyCodes[source]) {
-        fromCurrency = currencyCodes[source];
-      }
-      
-      if (currencyCodes[target]) {
-        toCurrency = currencyCodes[target];
-      }
-      
-      if (fromCurrency && toCurrency) {
-        break;
-      }
-    }
+  if (jump) {
+    warnings.push(
+      `The ${toCurrency} rate moved ${jump.percent > 0 ? "up" : "down"} ${Math.abs(jump.percent).toFixed(2)}% ` +
+      `since it was last shown (${jump.previousRate}). Make sure this isn't a data error.`
+    );
   }
-  
-  // If we still don't have both currencies, scan for currency names/codes
-  if (!fromCurrency || !toCurrency) {
-    for (const [key, code] of Object.entries(currencyCodes)) {
-      if (normalizedQuery.includes(key)) {
-        if (!fromCurrency) {
-          fromCurrency = code;
-        } else if (!toCurrency && code !== fromCurrency) {
-          toCurrency = code;
-          break;
-        }
-      }
-    }
+
+  return warnings;
+}
+
+// Helper function to say why a historical rate is from an earlier day
+function describeMissingDay(date: string): string {
+  const day = format(parseISO(date), "PPP");
+  if (date >= format(new Date(), ISO_DAY)) {
+    return `Rates for ${day} haven't been published yet`;
   }
-  
-  // If we still can't identify both currencies, return an error
-  if (!fromCurrency || !toCurrency) {
-    return { 
-      success: false, 
-      error: "Please specify both the source and target currencies more clearly." 
-    };
+  return isBusinessDay(date) ? `No rates were published for ${day}` : `${day} was not a business day`;
+}
+
+// Helper function to turn a conversion failure into a user-facing message
+function describeConversionError(error: unknown): string {
+  if (error instanceof StaleRatesError) {
+    return `You're offline and the last known rates are from ${format(error.updatedAt, "PPp")}, which is too old to convert with.`;
   }
-  
-  return {
-    success: true,
-    amount,
-    fromCurrency,
-    toCurrency
-  };
+  if (error instanceof RateChainError) {
+    const invalid = error.failures.find((failure) => failure.invalid);
+    return invalid
+      ? `${invalid.message}. No other rate source could provide this conversion.`
+      : "None of the rate sources could provide this conversion. Please try again later.";
+  }
+  return "There was an error converting your currency. Please try again.";
+}
+
+// Helper function to echo back an amount that isn't written the way results
+// are shown ("5k", "two hundred and fifty", "1.234,56", "3 lakh"), in Indian
+// grouping for Indian amounts. Separators the locale had to decide are
+// always echoed.
+function describeInterpretedAmount({ text, written, ambiguous, indian }: AmountPhrase): string | undefined {
+  const formatted = new Intl.NumberFormat(indian ? "en-IN" : "en-US", {
+    maximumFractionDigits: 8,
+  }).format(written);
+  if (ambiguous) {
+    return `Read "${text}" as ${formatted}, going by your locale's number format.`;
+  }
+  if (/^(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?$/.test(text)) {
+    return undefined;
+  }
+  return `Read "${text}" as ${formatted}.`;
+}
+
+// Helper function to head a multi-currency table, e.g.
+// "$100.00 USD in 3 currencies", or "USD against 3 currencies" for rates
+function describeTableTitle(amount: number | undefined, from: CurrencyRef, count: number, date?: string): string {
+  const currencies = `${count} ${count === 1 ? "currency" : "currencies"}`;
+  let title = `${from.code} against ${currencies}`;
+  if (amount !== undefined) {
+    const source = from.unit
+      ? describeWeight(formatWeightAmount(amount), amount, from.unit, from.code)
+      : formatMoney(amount, from.code);
+    title = `${source} in ${currencies}`;
+  }
+  return date ? `${title} on ${format(parseISO(date), "PPP")}` : title;
+}
+
+// Helper function to show one converted amount of a table
+function formatRowAmount(amount: number, code: string, units: ConversionUnits = {}, precision?: number): string {
+  if (units.toSubunit) {
+    return describeSubunit(formatWeightAmount(amount), units.toSubunit, code);
+  }
+  if (!units.to) {
+    return formatMoney(amount, code, precision);
+  }
+  return describeWeight(formatWeightAmount(amount), amount, units.to, code);
+}
+
+// Helper function to format a quantity of metal by weight
+function formatWeightAmount(amount: number): string {
+  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 4 }).format(amount);
+}
+
+// Helper function to answer a rate question both ways, e.g.
+// "1 USD = 0.92 EUR (1 EUR = 1.087 USD)"
+function formatRateAnswer(from: string, to: string, rate: number, precision?: number): string {
+  return `1 ${from} = ${formatRate(rate, precision)} ${to} ` +
+    `(1 ${to} = ${formatRate(1 / rate, precision)} ${from})`;
+}
+
+// Helper function to show a rate with the significant digits its quotes support
+function formatRate(rate: number, precision = 6): string {
+  return Number(rate.toPrecision(Math.max(precision, 4))).toString();
 }
 
 // Helper function to format the currency result
@@ -454,20 +954,52 @@ function formatCurrencyResult(
   amount: number, 
   fromCurrency: string, 
   toCurrency: string, 
-  result: number
+  result: number,
+  rateDate?: string,
+  units: ConversionUnits = {},
+  precision?: number
 ): string {
-  // Format the amount with thousand separators
-  const formattedAmount = new Intl.NumberFormat('en-US').format(amount);
+  // Format the amount with thousand separators, keeping as many fraction
+  // digits as each currency uses (8 for BTC, 18 for ETH)
+  const formattedAmount = new Intl.NumberFormat('en-US', {
+    maximumFractionDigits: Math.max(getCurrency(fromCurrency)?.decimals ?? 2, 3)
+  }).format(amount);
+  // The result gets no more digits than the rate supports
   const formattedResult = new Intl.NumberFormat('en-US', {
     minimumFractionDigits: 2,
-    maximumFractionDigits: 2
+    maximumFractionDigits: amountFractionDigits(result, toCurrency, precision)
   }).format(result);
 
   const fromSymbol = CURRENCY_SYMBOLS[fromCurrency] || '';
   const toSymbol = CURRENCY_SYMBOLS[toCurrency] || '';
 
+  const source = units.from
+    ? describeWeight(formattedAmount, amount, units.from, fromCurrency)
+    : `${fromSymbol}${formattedAmount} ${fromCurrency}`;
+  let target = `${toSymbol}${formattedResult} ${toCurrency}`;
+  if (units.toSubunit) {
+    target = describeSubunit(formatWeightAmount(result), units.toSubunit, toCurrency);
+  } else if (units.to) {
+    target = describeWeight(formattedResult, result, units.to, toCurrency);
+  }
+
+  const rateDescription = rateDate
+    ? `the exchange rate on ${format(parseISO(rateDate), "PPP")}`
+    : "the current exchange rate";
+
   // Construct the result string
-  return `${fromSymbol}${formattedAmount} ${fromCurrency} is approximately ${toSymbol}${formattedResult} ${toCurrency} at the current exchange rate.`;
+  return `${source} is approximately ${target} at ${rateDescription}.`;
+}
+
+// Helper function to describe a metal weight, e.g. "3 troy ounces of Gold (XAU)"
+function describeWeight(formatted: string, quantity: number, unit: WeightUnit, code: string): string {
+  const label = quantity === 1 ? unit.label : unit.plural;
+  return `${formatted} ${label} of ${getCurrency(code)?.name ?? code} (${code})`;
+}
+
+// Helper function to describe an amount in a sub-unit, e.g. "152,300 sats (BTC)"
+function describeSubunit(formatted: string, subunit: SubunitRef, code: string): string {
+  return `${formatted} ${subunit.name} (${code})`;
 }
 
 export default CurrencyConverter;
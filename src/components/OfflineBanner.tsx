@@ -0,0 +1,29 @@
+import { WifiOff } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { getStaleness } from "@/lib/rates";
+
+interface OfflineBannerProps {
+  isOnline: boolean;
+  // Provider timestamp of the last-known rates in use, if any
+  lastKnownAt?: number;
+}
+
+const OfflineBanner = ({ isOnline, lastKnownAt }: OfflineBannerProps) => {
+  const isStale = lastKnownAt !== undefined && getStaleness(lastKnownAt) !== "fresh";
+
+  return (
+    <Alert className={isStale ? "mb-6 border-amber-300 bg-amber-50" : "mb-6 border-blue-200 bg-blue-50"}>
+      <WifiOff className="h-4 w-4" />
+      <AlertTitle>{isOnline ? "Rate sources unreachable" : "You're offline"}</AlertTitle>
+      <AlertDescription>
+        {lastKnownAt !== undefined
+          ? `Showing last known rates from ${formatDistanceToNow(lastKnownAt, { addSuffix: true })}.`
+          : "Conversions will use the most recent rates saved on this device."}
+        {isStale && " These rates may be out of date; check them before relying on the result."}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default OfflineBanner;
@@ -0,0 +1,169 @@
+import { FormEvent, useState } from "react";
+import { Bell, BellOff, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import { CURRENCY_LIST } from "@/lib/currencies";
+import { AlertCondition, ALERT_POLL_MINUTES, describeAlertRule } from "@/lib/alerts";
+import { getChangeProvider, useRateAlerts } from "@/hooks/use-rate-alerts";
+
+const CONDITIONS: { value: AlertCondition; label: string }[] = [
+  { value: "above", label: "goes above" },
+  { value: "below", label: "goes below" },
+  { value: "change", label: "moves more than (%)" },
+];
+
+// Lets the user set watch rules on a pair; the rules are checked in the
+// background while the app is open
+const RateAlerts = () => {
+  const { rules, addRule, removeRule, permission, requestPermission } = useRateAlerts();
+  const [from, setFrom] = useState("USD");
+  const [to, setTo] = useState("INR");
+  const [condition, setCondition] = useState<AlertCondition>("above");
+  const [threshold, setThreshold] = useState("");
+  // A change alert needs a source with past rates for the pair
+  const changeUnchecked = condition === "change" && from !== to && !getChangeProvider(from, to);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(threshold);
+
+    if (from === to || isNaN(value) || value <= 0) {
+      toast({
+        title: "Invalid alert",
+        description: from === to
+          ? "Pick two different currencies"
+          : "Enter a positive number for the threshold",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    addRule(from, to, condition, value);
+    setThreshold("");
+  };
+
+  return (
+    <div className="rounded-md border border-blue-100 bg-white/60 p-4 text-left">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-600">Get told when a pair crosses a level or moves sharply.</p>
+        {permission === "default" && (
+          <Button variant="outline" size="sm" onClick={requestPermission}>
+            <Bell className="mr-2 h-4 w-4" /> Enable notifications
+          </Button>
+        )}
+        {(permission === "denied" || permission === "unsupported") && (
+          <span className="flex items-center text-xs text-gray-500">
+            <BellOff className="mr-1 h-3 w-3" /> Alerts will show in the app
+          </span>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="mt-3 grid grid-cols-2 gap-3 md:grid-cols-5 md:items-end">
+        <div className="space-y-1">
+          <Label>From</Label>
+          <Select value={from} onValueChange={setFrom}>
+            <SelectTrigger aria-label="Alert base currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCY_LIST.map((currency) => (
+                <SelectItem key={currency.code} value={currency.code}>
+                  {currency.code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>To</Label>
+          <Select value={to} onValueChange={setTo}>
+            <SelectTrigger aria-label="Alert quote currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCY_LIST.map((currency) => (
+                <SelectItem key={currency.code} value={currency.code}>
+                  {currency.code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>When the rate</Label>
+          <Select value={condition} onValueChange={(value) => setCondition(value as AlertCondition)}>
+            <SelectTrigger aria-label="Alert condition">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONDITIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="alert-threshold">{condition === "change" ? "Percent" : "Rate"}</Label>
+          <Input
+            id="alert-threshold"
+            inputMode="decimal"
+            placeholder={condition === "change" ? "1" : "84"}
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+          />
+        </div>
+        <Button
+          type="submit"
+          className="col-span-2 bg-blue-600 hover:bg-blue-700 text-white md:col-span-1"
+          disabled={changeUnchecked}
+        >
+          Add alert
+        </Button>
+      </form>
+      {changeUnchecked && (
+        <p className="mt-2 text-xs text-amber-700">
+          None of the rate sources has past {from}/{to} rates to compare with, so a change alert
+          can't be checked for this pair.
+        </p>
+      )}
+
+      {rules.length > 0 ? (
+        <ul className="mt-4 space-y-2">
+          {rules.map((rule) => (
+            <li key={rule.id} className="flex items-center justify-between text-sm text-gray-700">
+              <span>
+                Tell me when {describeAlertRule(rule)}
+                {!rule.armed && <span className="ml-2 text-xs text-gray-500">(triggered)</span>}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Remove alert: ${describeAlertRule(rule)}`}
+                onClick={() => removeRule(rule.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-3 text-xs text-gray-500">
+          No alerts yet. Rates are checked every {ALERT_POLL_MINUTES} minutes while the app is open.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RateAlerts;
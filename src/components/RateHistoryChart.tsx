@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO, startOfToday, subDays } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ISO_DAY, fetchSeriesWithFallback, getProviderChain, getRateProvider } from "@/lib/rates";
+
+interface RateHistoryChartProps {
+  fromCurrency: string;
+  toCurrency: string;
+  providerId: string;
+  // Days to show first; rounded up to the nearest available range
+  initialDays?: number;
+}
+
+const RANGES = [7, 30, 90, 365] as const;
+
+const chartConfig = {
+  rate: {
+    label: "Rate",
+    color: "#2563eb",
+  },
+} satisfies ChartConfig;
+
+// Enough significant digits for both JPY-sized and BTC-sized rates
+function formatRate(rate: number) {
+  return rate.toPrecision(6);
+}
+
+function annotation(value: string) {
+  return { value, position: "insideTopRight" as const, fontSize: 10, fill: "#64748b" };
+}
+
+const RateHistoryChart = ({
+  fromCurrency,
+  toCurrency,
+  providerId,
+  initialDays,
+}: RateHistoryChartProps) => {
+  const [days, setDays] = useState<number>(() =>
+    initialDays ? RANGES.find((range) => range >= initialDays) ?? RANGES[RANGES.length - 1] : 30
+  );
+
+  const { data: series, isLoading, isError } = useQuery({
+    queryKey: ["rate-series", providerId, fromCurrency, toCurrency, days],
+    queryFn: ({ signal }) => {
+      const end = startOfToday();
+      return fetchSeriesWithFallback(
+        getProviderChain(providerId, [fromCurrency, toCurrency]),
+        fromCurrency,
+        toCurrency,
+        format(subDays(end, days), ISO_DAY),
+        format(end, ISO_DAY),
+        { signal }
+      );
+    },
+    staleTime: 60 * 60 * 1000,
+    retry: false,
+  });
+
+  const rates = series?.points.map((point) => point.rate) ?? [];
+  const min = Math.min(...rates);
+  const max = Math.max(...rates);
+  const average = rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+
+  return (
+    <div className="mt-6 text-left">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-medium text-gray-800">
+          {fromCurrency}/{toCurrency} history
+        </h4>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={String(days)}
+          onValueChange={(value) => value && setDays(Number(value))}
+        >
+          {RANGES.map((range) => (
+            <ToggleGroupItem key={range} value={String(range)} aria-label={`Last ${range} days`}>
+              {range === 365 ? "1Y" : `${range}D`}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      {isLoading && (
+        <div className="flex h-48 items-center justify-center text-gray-500">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      )}
+
+      {isError && (
+        <p className="py-8 text-center text-sm text-gray-500">
+          No rate history is available for this pair from the selected sources.
+        </p>
+      )}
+
+      {series && (
+        <>
+          <ChartContainer config={chartConfig} className="h-48 w-full">
+            <LineChart data={series.points} margin={{ left: 8, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="date"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={32}
+                tickFormatter={(date) => format(parseISO(date), "MMM d")}
+              />
+              <YAxis
+                domain={["auto", "auto"]}
+                tickLine={false}
+                axisLine={false}
+                width={64}
+                tickFormatter={formatRate}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) =>
+                      format(parseISO(payload[0].payload.date), "EEE, PPP")
+                    }
+                    formatter={(value) => (
+                      <span className="font-mono tabular-nums">
+                        1 {fromCurrency} = {value as number} {toCurrency}
+                      </span>
+                    )}
+                  />
+                }
+              />
+              <ReferenceLine y={max} stroke="#0d9488" strokeDasharray="4 4" label={annotation("High")} />
+              <ReferenceLine y={average} stroke="#94a3b8" strokeDasharray="2 2" label={annotation("Avg")} />
+              <ReferenceLine y={min} stroke="#e11d48" strokeDasharray="4 4" label={annotation("Low")} />
+              <Line dataKey="rate" type="monotone" stroke="var(--color-rate)" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartContainer>
+
+          <div className="mt-2 grid grid-cols-3 gap-2 text-center text-sm">
+            <div>
+              <p className="text-gray-500">Low</p>
+              <p className="font-medium">{formatRate(min)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Average</p>
+              <p className="font-medium">{formatRate(average)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">High</p>
+              <p className="font-medium">{formatRate(max)}</p>
+            </div>
+          </div>
+          <p className="mt-1 text-xs text-gray-500 text-right">
+            Source: {getRateProvider(series.provider).name}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RateHistoryChart;
@@ -0,0 +1,177 @@
+import { ChangeEvent, useState } from "react";
+import { Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  IMPORTED_PROVIDER_PREFIX,
+  ImportedRateTable,
+  ParsedRateFile,
+  addImportedTable,
+  loadImportedTables,
+  parseRateFile,
+  removeImportedTable,
+} from "@/lib/rates";
+
+interface RateImportDialogProps {
+  disabled?: boolean;
+  // Called with the new source's provider id after a table is saved
+  onImported: (providerId: string) => void;
+  onRemoved: (providerId: string) => void;
+}
+
+// Uploads CSV/JSON rate tables as named local rate sources and manages the
+// ones already saved
+const RateImportDialog = ({ disabled, onImported, onRemoved }: RateImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [tables, setTables] = useState<ImportedRateTable[]>(loadImportedTables);
+  const [fileName, setFileName] = useState("");
+  const [name, setName] = useState("");
+  const [parsed, setParsed] = useState<ParsedRateFile | null>(null);
+
+  const reset = () => {
+    setFileName("");
+    setName("");
+    setParsed(null);
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    setFileName(file.name);
+    setName((current) => current || file.name.replace(/\.[^.]+$/, ""));
+    setParsed(parseRateFile(file.name, await file.text()));
+  };
+
+  const handleSave = () => {
+    if (!parsed?.table) {
+      return;
+    }
+    const table: ImportedRateTable = {
+      ...parsed.table,
+      id: Date.now().toString(36),
+      name: name.trim() || fileName,
+      fileName,
+      importedAt: Date.now(),
+    };
+    const provider = addImportedTable(table);
+    setTables(loadImportedTables());
+    reset();
+    setOpen(false);
+    onImported(provider.id);
+  };
+
+  const handleRemove = (id: string) => {
+    removeImportedTable(id);
+    setTables(loadImportedTables());
+    onRemoved(`${IMPORTED_PROVIDER_PREFIX}${id}`);
+  };
+
+  const rateCount = parsed?.table ? Object.keys(parsed.table.rates).length : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" disabled={disabled} aria-label="Import a rate table">
+          <Upload className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import a rate table</DialogTitle>
+          <DialogDescription>
+            CSV with pair, rate and date columns (e.g. <code>USD/EUR,0.92,2024-07-01</code>) or
+            JSON in the open.er-api format. Saved tables appear as rate sources.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="rate-file">File</Label>
+            <Input id="rate-file" type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rate-table-name">Name</Label>
+            <Input
+              id="rate-table-name"
+              placeholder="e.g. Q3 budget rates"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          {parsed && (
+            <div className="text-sm">
+              {parsed.table ? (
+                <p className="text-gray-700">
+                  {rateCount} {rateCount === 1 ? "rate" : "rates"} against {parsed.table.base}
+                  {parsed.table.date && `, dated ${parsed.table.date}`}.
+                </p>
+              ) : (
+                <p className="text-red-600">No usable rates found in this file.</p>
+              )}
+              {parsed.errors.length > 0 && (
+                <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto rounded-md border border-amber-200 bg-amber-50 p-2 text-amber-800">
+                  {parsed.errors.map((error, index) => (
+                    <li key={index}>
+                      <span className="font-medium">{error.location}:</span> {error.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+            disabled={!parsed?.table}
+            onClick={handleSave}
+          >
+            {parsed?.errors.length ? "Save valid rows" : "Save table"}
+          </Button>
+        </DialogFooter>
+
+        {tables.length > 0 && (
+          <div className="border-t pt-3">
+            <h4 className="mb-2 text-sm font-medium text-gray-800">Saved tables</h4>
+            <ul className="space-y-1">
+              {tables.map((table) => (
+                <li key={table.id} className="flex items-center justify-between text-sm text-gray-700">
+                  <span>
+                    {table.name}
+                    <span className="ml-2 text-xs text-gray-500">
+                      {Object.keys(table.rates).length} rates vs {table.base}
+                    </span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Remove ${table.name}`}
+                    onClick={() => handleRemove(table.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RateImportDialog;
@@ -0,0 +1,175 @@
+import { FormEvent, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import { CURRENCY_LIST } from "@/lib/currencies";
+import { RateOverride, loadRateOverrides, saveRateOverrides } from "@/lib/rates";
+
+// Lets the user enter fixed corporate rates the converter uses instead of
+// the live ones while they are valid
+const RateOverrides = () => {
+  const [overrides, setOverrides] = useState<RateOverride[]>(loadRateOverrides);
+  const [from, setFrom] = useState("USD");
+  const [to, setTo] = useState("EUR");
+  const [rate, setRate] = useState("");
+  const [validFrom, setValidFrom] = useState("");
+  const [validTo, setValidTo] = useState("");
+  const [note, setNote] = useState("");
+
+  const update = (next: RateOverride[]) => {
+    setOverrides(next);
+    saveRateOverrides(next);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(rate);
+
+    let problem: string | null = null;
+    if (from === to) {
+      problem = "Pick two different currencies";
+    } else if (isNaN(value) || value <= 0) {
+      problem = "Enter a positive rate";
+    } else if (validFrom && validTo && validTo < validFrom) {
+      problem = "The validity period ends before it starts";
+    }
+    if (problem) {
+      toast({ title: "Invalid override", description: problem, variant: "destructive" });
+      return;
+    }
+
+    update([
+      ...overrides,
+      {
+        id: `${from}-${to}-${Date.now().toString(36)}`,
+        from,
+        to,
+        rate: value,
+        validFrom: validFrom || undefined,
+        validTo: validTo || undefined,
+        note: note.trim() || undefined,
+        createdAt: Date.now(),
+      },
+    ]);
+    setRate("");
+    setNote("");
+  };
+
+  return (
+    <div className="rounded-md border border-blue-100 bg-white/60 p-4 text-left">
+      <p className="text-sm text-gray-600">
+        Conversions between these pairs use your rate instead of the live one while it is valid.
+      </p>
+
+      <form onSubmit={handleSubmit} className="mt-3 grid grid-cols-2 gap-3 md:grid-cols-3">
+        <div className="space-y-1">
+          <Label>From</Label>
+          <Select value={from} onValueChange={setFrom}>
+            <SelectTrigger aria-label="Override base currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCY_LIST.map((currency) => (
+                <SelectItem key={currency.code} value={currency.code}>
+                  {currency.code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>To</Label>
+          <Select value={to} onValueChange={setTo}>
+            <SelectTrigger aria-label="Override quote currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCY_LIST.map((currency) => (
+                <SelectItem key={currency.code} value={currency.code}>
+                  {currency.code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="override-rate">1 {from} =</Label>
+          <Input
+            id="override-rate"
+            inputMode="decimal"
+            placeholder={`Rate in ${to}`}
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="override-from">Valid from</Label>
+          <Input
+            id="override-from"
+            type="date"
+            value={validFrom}
+            onChange={(e) => setValidFrom(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="override-to">Valid to</Label>
+          <Input
+            id="override-to"
+            type="date"
+            value={validTo}
+            onChange={(e) => setValidTo(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="override-note">Note</Label>
+          <Input
+            id="override-note"
+            placeholder="e.g. Treasury May rate"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </div>
+        <Button type="submit" className="col-span-2 bg-blue-600 hover:bg-blue-700 text-white md:col-span-3">
+          Add override
+        </Button>
+      </form>
+
+      {overrides.length > 0 && (
+        <ul className="mt-4 space-y-2">
+          {overrides.map((override) => (
+            <li key={override.id} className="flex items-center justify-between text-sm text-gray-700">
+              <span>
+                1 {override.from} = {override.rate} {override.to}
+                <span className="ml-2 text-xs text-gray-500">
+                  {override.validFrom || override.validTo
+                    ? `${override.validFrom ?? "…"} to ${override.validTo ?? "…"}`
+                    : "always"}
+                  {override.note && ` · ${override.note}`}
+                </span>
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Remove ${override.from}/${override.to} override`}
+                onClick={() => update(overrides.filter((candidate) => candidate.id !== override.id))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RateOverrides;
@@ -0,0 +1,75 @@
+import { ChevronDown } from "lucide-react";
+import { format } from "date-fns";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { PairRate, RateOverride } from "@/lib/rates";
+
+interface RateProvenanceProps {
+  pair: PairRate;
+  providerName: string;
+  // Served from last-known rates because no provider was reachable
+  offline: boolean;
+  // Set when a corporate/manual override was used instead of a provider
+  override?: RateOverride;
+}
+
+function formatTimestamp(time: number) {
+  return `${format(time, "yyyy-MM-dd HH:mm:ss")} (${new Date(time).toISOString()})`;
+}
+
+function describeValidity({ validFrom, validTo }: RateOverride) {
+  if (validFrom && validTo) return `${validFrom} to ${validTo}`;
+  if (validFrom) return `From ${validFrom}`;
+  return validTo ? `Until ${validTo}` : "Until removed";
+}
+
+// Everything a converted figure was based on, so it can be cited exactly.
+// An override was entered by hand, so it has no fetch or cache to report.
+const RateProvenance = ({ pair, providerName, offline, override }: RateProvenanceProps) => {
+  const rates: [string, string][] = [
+    ["Raw rate", `1 ${pair.from} = ${pair.rate} ${pair.to}`],
+    ["Inverse rate", `1 ${pair.to} = ${1 / pair.rate} ${pair.from}`],
+  ];
+  const details: [string, string][] = override
+    ? [
+        ["Source", override.note ? `Manual override: ${override.note}` : "Manual override"],
+        ["Entered as", `1 ${override.from} = ${override.rate} ${override.to}`],
+        ...rates,
+        ["Valid", describeValidity(override)],
+        ["Set at", formatTimestamp(override.createdAt)],
+      ]
+    : [
+        ["Provider", `${providerName} (${pair.provider})`],
+        ["Base currency", pair.base],
+        ...rates,
+        ["Derived through", pair.path ? pair.path.join(" → ") : `${pair.from} → ${pair.to}`],
+        ["Rate date", pair.date ?? "Latest"],
+        ["Provider timestamp", formatTimestamp(pair.updatedAt)],
+        ["Fetched at", pair.fetchedAt ? formatTimestamp(pair.fetchedAt) : "Unknown"],
+        ["Cache", offline ? "Hit (last-known rates, offline)" : pair.cached ? "Hit" : "Miss"],
+      ];
+
+  return (
+    <Collapsible className="mt-4 text-left">
+      <CollapsibleTrigger className="group flex w-full items-center justify-center gap-1 text-sm text-blue-700 hover:underline">
+        Rate details
+        <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 rounded-md border border-blue-100 bg-white/60 p-4 text-sm">
+          {details.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-gray-500">{label}</dt>
+              <dd className="break-all font-mono text-gray-800">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default RateProvenance;
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Minus, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CURRENCY_LIST } from "@/lib/currencies";
+import { TickerQuote } from "@/lib/ticker";
+import { useRateTicker } from "@/hooks/use-rate-ticker";
+
+function formatChange(change: number) {
+  return `${change >= 0 ? "+" : ""}${change.toFixed(2)}%`;
+}
+
+const ChangeArrow = ({ change }: { change?: number }) => {
+  if (change === undefined || change === 0) {
+    return <Minus className="h-3 w-3 text-gray-400" aria-label="unchanged" />;
+  }
+  return change > 0
+    ? <ArrowUp className="h-3 w-3 text-green-600" aria-label="up" />
+    : <ArrowDown className="h-3 w-3 text-red-600" aria-label="down" />;
+};
+
+const TickerItem = ({ quote }: { quote?: TickerQuote }) => {
+  if (!quote) {
+    return <span className="text-gray-400">…</span>;
+  }
+
+  const { rate, changeSincePrevious, changeSinceDayStart } = quote;
+  return (
+    <>
+      <span className="font-mono">{rate.toPrecision(5)}</span>
+      <ChangeArrow change={changeSincePrevious} />
+      {changeSincePrevious !== undefined && (
+        <span title="Since the previous update">{formatChange(changeSincePrevious)}</span>
+      )}
+      {changeSinceDayStart !== undefined && (
+        <span className="text-gray-500" title="Since the start of the day">
+          (day {formatChange(changeSinceDayStart)})
+        </span>
+      )}
+    </>
+  );
+};
+
+// Strip of pinned pairs in the page header, kept up to date in the background
+const RateTicker = () => {
+  const { pairs, quotes, addPair, removePair } = useRateTicker();
+  const [from, setFrom] = useState("USD");
+  const [to, setTo] = useState("EUR");
+
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto text-xs text-gray-700">
+      {pairs.map((pair) => (
+        <div
+          key={`${pair.from}/${pair.to}`}
+          className="group flex shrink-0 items-center gap-1 rounded-full border border-gray-200 bg-gray-50 px-3 py-1"
+        >
+          <span className="font-semibold">{pair.from}/{pair.to}</span>
+          <TickerItem quote={quotes[`${pair.from}/${pair.to}`]} />
+          <button
+            type="button"
+            className="ml-1 text-gray-400 opacity-0 hover:text-gray-700 focus:opacity-100 group-hover:opacity-100"
+            aria-label={`Unpin ${pair.from}/${pair.to}`}
+            onClick={() => removePair(pair)}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 shrink-0 px-2" aria-label="Pin a pair">
+            <Plus className="h-3 w-3" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={from} onValueChange={setFrom}>
+              <SelectTrigger aria-label="Pinned pair base currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCY_LIST.map((currency) => (
+                  <SelectItem key={currency.code} value={currency.code}>
+                    {currency.code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={to} onValueChange={setTo}>
+              <SelectTrigger aria-label="Pinned pair quote currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCY_LIST.map((currency) => (
+                  <SelectItem key={currency.code} value={currency.code}>
+                    {currency.code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+            disabled={from === to}
+            onClick={() => addPair({ from, to })}
+          >
+            Pin {from}/{to}
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default RateTicker;
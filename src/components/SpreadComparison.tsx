@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatMoney } from "@/lib/currencies";
+import { fetchPairWithFallback, getProviderChain } from "@/lib/rates";
+import { FEE_CURRENCY, SPREAD_PROFILES, applySpread } from "@/lib/spreads";
+
+interface SpreadComparisonProps {
+  amount: number;
+  convertedAmount: number;
+  fromCurrency: string;
+  toCurrency: string;
+  // Provider to convert built-in flat fees into the source currency with
+  providerId: string;
+}
+
+const CUSTOM_PROFILE_ID = "custom";
+
+// Shows what a provider with a markup would actually pay out next to the
+// mid-market conversion, and what that markup costs
+const SpreadComparison = ({
+  amount,
+  convertedAmount,
+  fromCurrency,
+  toCurrency,
+  providerId,
+}: SpreadComparisonProps) => {
+  const [profileId, setProfileId] = useState("bank");
+  const [customPercent, setCustomPercent] = useState("2");
+  const [customFee, setCustomFee] = useState("0");
+
+  const builtIn = SPREAD_PROFILES.find((candidate) => candidate.id === profileId);
+  const convertsFee = !!builtIn?.fixedFee && fromCurrency !== FEE_CURRENCY;
+
+  // Source units per unit of the fee currency, at the mid rate
+  const { data: feeRate, isError: feeRateFailed } = useQuery({
+    queryKey: ["fee-rate", providerId, fromCurrency],
+    queryFn: async ({ signal }) => {
+      const { pair } = await fetchPairWithFallback(
+        getProviderChain(providerId, [FEE_CURRENCY, fromCurrency]),
+        FEE_CURRENCY,
+        fromCurrency,
+        { crossCheck: false, signal }
+      );
+      return pair.rate;
+    },
+    enabled: convertsFee,
+    staleTime: 60 * 60 * 1000,
+    retry: false,
+  });
+
+  // Custom fees are typed in the source currency; built-in ones are priced in
+  // FEE_CURRENCY and left out until they can be converted
+  let profile = { percent: parseFloat(customPercent) || 0, fixedFee: parseFloat(customFee) || 0 };
+  if (builtIn) {
+    profile = {
+      percent: builtIn.percent,
+      fixedFee: convertsFee ? builtIn.fixedFee * (feeRate ?? 0) : builtIn.fixedFee,
+    };
+  }
+
+  let feeNote = "";
+  if (builtIn?.fixedFee) {
+    const fee = formatMoney(builtIn.fixedFee, FEE_CURRENCY);
+    if (!convertsFee) {
+      feeNote = `Includes a ${fee} flat fee.`;
+    } else if (feeRate !== undefined) {
+      feeNote = `Includes a ${fee} flat fee (${formatMoney(profile.fixedFee, fromCurrency)}).`;
+    } else if (feeRateFailed) {
+      feeNote = `The ${fee} flat fee couldn't be converted into ${fromCurrency}, so it is left out.`;
+    } else {
+      feeNote = `Converting the ${fee} flat fee into ${fromCurrency}…`;
+    }
+  }
+
+  const midRate = amount > 0 ? convertedAmount / amount : 0;
+  const spread = applySpread(amount, midRate, profile);
+
+  return (
+    <div className="mt-6 rounded-md border border-blue-100 bg-white/60 p-4 text-left">
+      <div className="flex items-center justify-between gap-4">
+        <h4 className="font-medium text-gray-800">What you'd really get</h4>
+        <Select value={profileId} onValueChange={setProfileId}>
+          <SelectTrigger className="w-48" aria-label="Provider markup">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SPREAD_PROFILES.map((candidate) => (
+              <SelectItem key={candidate.id} value={candidate.id}>
+                {candidate.name}
+              </SelectItem>
+            ))}
+            <SelectItem value={CUSTOM_PROFILE_ID}>Custom</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {profileId === CUSTOM_PROFILE_ID && (
+        <div className="mt-3 grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="spread-percent">Markup (%)</Label>
+            <Input
+              id="spread-percent"
+              inputMode="decimal"
+              value={customPercent}
+              onChange={(e) => setCustomPercent(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="spread-fee">Flat fee ({fromCurrency})</Label>
+            <Input
+              id="spread-fee"
+              inputMode="decimal"
+              value={customFee}
+              onChange={(e) => setCustomFee(e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+
+      {builtIn && builtIn.fixedFee > 0 && (
+        <p className="mt-2 text-xs text-gray-500">{feeNote}</p>
+      )}
+
+      <dl className="mt-3 grid grid-cols-1 gap-2 text-sm md:grid-cols-2">
+        <div>
+          <dt className="text-gray-500">Mid-market</dt>
+          <dd className="font-medium">{formatMoney(convertedAmount, toCurrency)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">You receive</dt>
+          <dd className="font-medium">{formatMoney(spread.received, toCurrency)}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Effective rate</dt>
+          <dd>
+            1 {fromCurrency} = {Number(spread.effectiveRate.toPrecision(6))} {toCurrency}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Markup cost</dt>
+          <dd>
+            {formatMoney(spread.costInTarget, toCurrency)} (
+            {formatMoney(spread.costInSource, fromCurrency)})
+          </dd>
+        </div>
+      </dl>
+    </div>
+  );
+};
+
+export default SpreadComparison;
@@ -0,0 +1,17 @@
+import * as React from "react"
+
+export function useOnlineStatus() {
+  const [isOnline, setIsOnline] = React.useState(() => navigator.onLine)
+
+  React.useEffect(() => {
+    const onChange = () => setIsOnline(navigator.onLine)
+    window.addEventListener("online", onChange)
+    window.addEventListener("offline", onChange)
+    return () => {
+      window.removeEventListener("online", onChange)
+      window.removeEventListener("offline", onChange)
+    }
+  }, [])
+
+  return isOnline
+}
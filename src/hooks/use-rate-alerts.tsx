@@ -0,0 +1,157 @@
+import * as React from "react"
+
+import { toast } from "@/components/ui/use-toast"
+import {
+  ALERT_POLL_MINUTES,
+  AlertCondition,
+  AlertRule,
+  AlertTrigger,
+  ReferenceRate,
+  createAlertRule,
+  describeAlertRule,
+  evaluateAlertRule,
+  loadAlertRules,
+  referenceDay,
+  saveAlertRules,
+} from "@/lib/alerts"
+import { DEFAULT_PROVIDER_ID, RateProvider, fetchPairWithFallback, getProviderChain } from "@/lib/rates"
+
+const notificationsSupported = () => typeof Notification !== "undefined"
+
+// Browser notification when allowed, otherwise an in-app toast. Where the
+// service worker is registered it shows the notification: some browsers
+// (Android Chrome) refuse `new Notification()` even with permission. Never
+// rejects; a notification that can't be shown becomes a toast.
+async function deliver({ rule, message }: AlertTrigger) {
+  const showToast = () =>
+    toast({ title: `Rate alert: ${describeAlertRule(rule)}`, description: message })
+
+  if (!notificationsSupported() || Notification.permission !== "granted") {
+    showToast()
+    return
+  }
+
+  const title = "Currency Whisper rate alert"
+  const options = { body: message, tag: rule.id }
+  try {
+    const registered = "serviceWorker" in navigator && !!(await navigator.serviceWorker.getRegistration())
+    if (registered) {
+      const registration = await navigator.serviceWorker.ready
+      await registration.showNotification(title, options)
+    } else {
+      new Notification(title, options)
+    }
+  } catch (error) {
+    console.warn("Could not show the rate alert notification:", error)
+    showToast()
+  }
+}
+
+// Change rules compare the latest rate with the previous business day's from
+// one provider, so the move isn't just the difference between two sources.
+// That's the first in the pair's chain with past rates, if any has them.
+export function getChangeProvider(from: string, to: string): RateProvider | undefined {
+  return getProviderChain(DEFAULT_PROVIDER_ID, [from, to]).find((provider) => provider.fetchHistorical)
+}
+
+export function useRateAlerts() {
+  const [rules, setRules] = React.useState<AlertRule[]>(loadAlertRules)
+  const [permission, setPermission] = React.useState<NotificationPermission | "unsupported">(
+    () => (notificationsSupported() ? Notification.permission : "unsupported")
+  )
+  // The poller reads the latest rules without restarting on every change
+  const rulesRef = React.useRef(rules)
+
+  const updateRules = React.useCallback((next: AlertRule[]) => {
+    rulesRef.current = next
+    setRules(next)
+    saveAlertRules(next)
+  }, [])
+
+  const addRule = React.useCallback(
+    (from: string, to: string, condition: AlertCondition, threshold: number) => {
+      updateRules([...rulesRef.current, createAlertRule(from, to, condition, threshold)])
+    },
+    [updateRules]
+  )
+
+  const removeRule = React.useCallback(
+    (id: string) => updateRules(rulesRef.current.filter((rule) => rule.id !== id)),
+    [updateRules]
+  )
+
+  const requestPermission = React.useCallback(async () => {
+    if (!notificationsSupported()) return
+    setPermission(await Notification.requestPermission())
+  }, [])
+
+  React.useEffect(() => {
+    const controller = new AbortController()
+
+    const poll = async () => {
+      const current = rulesRef.current
+      if (current.length === 0) return
+
+      // One lookup per watched pair, however many rules share it
+      const pairs = [...new Set(current.map((rule) => `${rule.from}/${rule.to}`))]
+      // Latest rates for level rules, and for change rules the latest rate
+      // with its reference, both from the change provider
+      const rates = new Map<string, number>()
+      const changes = new Map<string, { rate: number; reference: ReferenceRate }>()
+      await Promise.all(
+        pairs.map(async (pair) => {
+          const [from, to] = pair.split("/")
+          const watched = current.filter((rule) => `${rule.from}/${rule.to}` === pair)
+          try {
+            if (watched.some((rule) => rule.condition !== "change")) {
+              const chain = getProviderChain(DEFAULT_PROVIDER_ID, [from, to])
+              const { pair: quote } = await fetchPairWithFallback(chain, from, to, {
+                crossCheck: false,
+                signal: controller.signal,
+              })
+              rates.set(pair, quote.rate)
+            }
+
+            const provider = getChangeProvider(from, to)
+            if (provider && watched.some((rule) => rule.condition === "change")) {
+              const options = { crossCheck: false, signal: controller.signal }
+              const { pair: quote } = await fetchPairWithFallback([provider], from, to, options)
+              // Rates are published for UTC days, whatever the user's time zone
+              const date = referenceDay(quote.date ?? new Date(quote.updatedAt).toISOString().slice(0, 10))
+              const { pair: previous } = await fetchPairWithFallback([provider], from, to, { ...options, date })
+              changes.set(pair, {
+                rate: quote.rate,
+                reference: { date: previous.date ?? date, rate: previous.rate },
+              })
+            }
+          } catch (error) {
+            // Try again on the next tick
+            console.warn(`Rate alert check for ${pair} failed:`, error)
+          }
+        })
+      )
+      if (controller.signal.aborted) return
+
+      // Rules may have been edited while the rates were loading
+      const next = rulesRef.current.map((rule) => {
+        const pair = `${rule.from}/${rule.to}`
+        const change = rule.condition === "change" ? changes.get(pair) : undefined
+        const rate = rule.condition === "change" ? change?.rate : rates.get(pair)
+        if (rate === undefined) return rule
+        const { rule: updated, trigger } = evaluateAlertRule(rule, rate, Date.now(), change?.reference)
+        if (trigger) void deliver(trigger)
+        return updated
+      })
+      updateRules(next)
+    }
+
+    poll()
+    const timer = window.setInterval(poll, ALERT_POLL_MINUTES * 60_000)
+    return () => {
+      controller.abort()
+      window.clearInterval(timer)
+    }
+  }, [updateRules])
+
+  return { rules, addRule, removeRule, permission, requestPermission }
+}
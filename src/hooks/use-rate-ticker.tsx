@@ -0,0 +1,131 @@
+import * as React from "react"
+
+import {
+  MAX_TICKER_REFRESH_MS,
+  MIN_TICKER_REFRESH_MS,
+  TickerPair,
+  TickerQuote,
+  loadTickerPairs,
+  recordTickerRate,
+  saveTickerPairs,
+} from "@/lib/ticker"
+import {
+  DEFAULT_PROVIDER_ID,
+  fetchPairWithFallback,
+  getProviderChain,
+  rateExpiresAt,
+} from "@/lib/rates"
+
+const pairKey = ({ from, to }: TickerPair) => `${from}/${to}`
+
+// Quotes for the pinned pairs, refreshed when the provider's rates are due
+// to change. Goes through the same cached providers as the converter, and
+// stops polling while the tab is hidden.
+export function useRateTicker() {
+  const [pairs, setPairs] = React.useState<TickerPair[]>(loadTickerPairs)
+  const [quotes, setQuotes] = React.useState<Record<string, TickerQuote>>({})
+
+  const updatePairs = React.useCallback((next: TickerPair[]) => {
+    setPairs(next)
+    saveTickerPairs(next)
+  }, [])
+
+  const addPair = React.useCallback(
+    (pair: TickerPair) => {
+      if (!pairs.some((pinned) => pairKey(pinned) === pairKey(pair))) {
+        updatePairs([...pairs, pair])
+      }
+    },
+    [pairs, updatePairs]
+  )
+
+  const removePair = React.useCallback(
+    (pair: TickerPair) => updatePairs(pairs.filter((pinned) => pairKey(pinned) !== pairKey(pair))),
+    [pairs, updatePairs]
+  )
+
+  React.useEffect(() => {
+    let timer: number | undefined
+    let controller: AbortController | undefined
+    // Refreshes in a row in which some pair couldn't be fetched
+    let failedRounds = 0
+
+    const refresh = async () => {
+      controller?.abort()
+      controller = new AbortController()
+      const { signal } = controller
+      let nextRefresh = Date.now() + MAX_TICKER_REFRESH_MS
+      let failed = false
+
+      const results = await Promise.all(
+        pairs.map(async (pair) => {
+          try {
+            const { pair: quote } = await fetchPairWithFallback(
+              getProviderChain(DEFAULT_PROVIDER_ID, [pair.from, pair.to]),
+              pair.from,
+              pair.to,
+              { crossCheck: false, signal }
+            )
+            nextRefresh = Math.min(nextRefresh, rateExpiresAt(quote))
+            return recordTickerRate(pair, { rate: quote.rate, updatedAt: quote.updatedAt })
+          } catch {
+            // Keep showing the last quote; the next refresh may succeed
+            failed = true
+            return null
+          }
+        })
+      )
+      if (signal.aborted) return
+
+      setQuotes((current) => {
+        const next: Record<string, TickerQuote> = {}
+        pairs.forEach((pair, index) => {
+          const quote = results[index] ?? current[pairKey(pair)]
+          if (quote) next[pairKey(pair)] = quote
+        })
+        return next
+      })
+
+      // Retry failed pairs soon, backing off while they keep failing, instead
+      // of waiting for rates that did load to expire
+      failedRounds = failed ? failedRounds + 1 : 0
+      if (failed) {
+        const backoff = Math.min(MIN_TICKER_REFRESH_MS * 2 ** (failedRounds - 1), MAX_TICKER_REFRESH_MS)
+        nextRefresh = Math.min(nextRefresh, Date.now() + backoff)
+      }
+
+      const delay = Math.max(nextRefresh - Date.now(), MIN_TICKER_REFRESH_MS)
+      timer = window.setTimeout(refresh, delay)
+    }
+
+    const onVisibilityChange = () => {
+      window.clearTimeout(timer)
+      if (document.visibilityState === "visible") {
+        refresh()
+      } else {
+        controller?.abort()
+      }
+    }
+
+    // Coming back online is the likeliest moment for a failed pair to load
+    const onOnline = () => {
+      if (document.visibilityState !== "visible") return
+      window.clearTimeout(timer)
+      failedRounds = 0
+      refresh()
+    }
+
+    document.addEventListener("visibilitychange", onVisibilityChange)
+    window.addEventListener("online", onOnline)
+    if (document.visibilityState === "visible") refresh()
+
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibilityChange)
+      window.removeEventListener("online", onOnline)
+      window.clearTimeout(timer)
+      controller?.abort()
+    }
+  }, [pairs])
+
+  return { pairs, quotes, addPair, removePair }
+}
@@ -0,0 +1,149 @@
+import { format, subDays } from "date-fns";
+import { ISO_DAY, previousBusinessDay } from "@/lib/rates/business-days";
+
+// Watch rules the user sets on a pair: notify when the rate crosses a level,
+// or when it moves more than a percentage within a day
+export type AlertCondition = "above" | "below" | "change";
+
+export interface AlertRule {
+  id: string;
+  from: string;
+  to: string;
+  condition: AlertCondition;
+  // Rate level for above/below, percent for change
+  threshold: number;
+  createdAt: number;
+  // Level rules fire once per crossing and re-arm when the rate moves back
+  armed: boolean;
+  // Published rate of the business day before the latest one, for change
+  // rules; a new reference day re-arms the rule
+  reference?: ReferenceRate;
+  lastTriggeredAt?: number;
+}
+
+export interface ReferenceRate {
+  // ISO day the rate was published for
+  date: string;
+  rate: number;
+}
+
+export interface AlertTrigger {
+  rule: AlertRule;
+  rate: number;
+  message: string;
+}
+
+const STORAGE_KEY = "currency-whisper:alerts";
+
+// How often the background poller checks the watched pairs
+export const ALERT_POLL_MINUTES = Number(import.meta.env.VITE_ALERT_POLL_MINUTES) || 5;
+
+export function loadAlertRules(): AlertRule[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as AlertRule[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveAlertRules(rules: AlertRule[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch {
+    // Storage full or unavailable; rules only last for this session
+  }
+}
+
+export function createAlertRule(
+  from: string,
+  to: string,
+  condition: AlertCondition,
+  threshold: number
+): AlertRule {
+  return {
+    id: `${from}-${to}-${Date.now().toString(36)}`,
+    from,
+    to,
+    condition,
+    threshold,
+    createdAt: Date.now(),
+    armed: true,
+  };
+}
+
+export function describeAlertRule({ from, to, condition, threshold }: AlertRule): string {
+  switch (condition) {
+    case "above":
+      return `${from}/${to} goes above ${threshold}`;
+    case "below":
+      return `${from}/${to} goes below ${threshold}`;
+    case "change":
+      return `${from}/${to} moves more than ${threshold}% in a day`;
+  }
+}
+
+// The business day before the one a rate was published for, whose rate a
+// change rule compares against. Daily providers serve the same table all
+// day, so comparing polls within a day would never see a move.
+export function referenceDay(rateDay: string): string {
+  return previousBusinessDay(format(subDays(new Date(`${rateDay}T00:00:00`), 1), ISO_DAY));
+}
+
+// Checks a rule against the latest rate. Change rules also need the
+// reference rate (see referenceDay) and are left as they are without one.
+// Returns the rule with its updated state, plus a trigger when the user
+// should be told
+export function evaluateAlertRule(
+  rule: AlertRule,
+  rate: number,
+  now = Date.now(),
+  reference?: ReferenceRate
+): { rule: AlertRule; trigger?: AlertTrigger } {
+  const label = `${rule.from}/${rule.to}`;
+
+  if (rule.condition === "change") {
+    if (!reference) {
+      return { rule };
+    }
+    const current =
+      rule.reference?.date === reference.date ? rule : { ...rule, reference, armed: true };
+
+    const change = ((rate - reference.rate) / reference.rate) * 100;
+    if (!current.armed || Math.abs(change) < rule.threshold) {
+      return { rule: current };
+    }
+
+    // At most one notification per reference day for a change rule
+    const updated = { ...current, armed: false, lastTriggeredAt: now };
+    const direction = change > 0 ? "up" : "down";
+    return {
+      rule: updated,
+      trigger: {
+        rule: updated,
+        rate,
+        message:
+          `${label} is ${direction} ${Math.abs(change).toFixed(2)}% on the ` +
+          `${reference.date} rate (${reference.rate}), now ${rate}`,
+      },
+    };
+  }
+
+  const crossed = rule.condition === "above" ? rate > rule.threshold : rate < rule.threshold;
+  if (!crossed) {
+    return { rule: rule.armed ? rule : { ...rule, armed: true } };
+  }
+  if (!rule.armed) {
+    return { rule };
+  }
+
+  const updated = { ...rule, armed: false, lastTriggeredAt: now };
+  return {
+    rule: updated,
+    trigger: {
+      rule: updated,
+      rate,
+      message: `${label} is ${rule.condition} ${rule.threshold}, now ${rate}`,
+    },
+  };
+}
@@ -0,0 +1,203 @@
+export type AssetClass = "fiat" | "crypto" | "metal";
+
+export interface SubUnit {
+  // Words the parser accepts for the sub-unit, e.g. ["sat", "sats"]
+  names: string[];
+  // How many sub-units make one whole unit
+  perUnit: number;
+}
+
+export interface Currency {
+  code: string;
+  name: string;
+  symbol: string;
+  assetClass: AssetClass;
+  // Fraction digits shown when formatting amounts
+  decimals: number;
+  // Extra words (beyond the code) that refer to the currency
+  aliases: string[];
+  subUnits?: SubUnit[];
+  // Id used by the crypto rate provider (CoinGecko coin id)
+  coinId?: string;
+}
+
+const fiat = (
+  code: string,
+  name: string,
+  symbol: string,
+  aliases: string[] = []
+): Currency => ({ code, name, symbol, assetClass: "fiat", decimals: 2, aliases });
+
+// Common currency codes with their symbols
+const FIAT_CURRENCIES: Currency[] = [
+  fiat("USD", "US Dollar", "$", ["dollar", "dollars", "$", "us$"]),
+  fiat("EUR", "Euro", "€", ["euro", "euros", "€"]),
+  fiat("GBP", "British Pound", "£", ["pound", "pounds", "£"]),
+  fiat("JPY", "Japanese Yen", "¥", ["yen", "¥"]),
+  fiat("INR", "Indian Rupee", "₹", ["rupee", "rupees", "rs", "₹"]),
+  fiat("CAD", "Canadian Dollar", "C$", ["canadian dollar", "c$"]),
+  fiat("AUD", "Australian Dollar", "A$", ["australian dollar", "a$"]),
+  fiat("CHF", "Swiss Franc", "CHF", ["franc", "francs"]),
+  fiat("CNY", "Chinese Yuan", "¥", ["yuan", "rmb"]),
+  fiat("RUB", "Russian Ruble", "₽", ["₽"]),
+  fiat("MXN", "Mexican Peso", "$", ["mx$"]),
+  fiat("BRL", "Brazilian Real", "R$", ["r$"]),
+];
+
+const BUILT_IN_CRYPTO: Currency[] = [
+  {
+    code: "BTC",
+    name: "Bitcoin",
+    symbol: "₿",
+    assetClass: "crypto",
+    decimals: 8,
+    aliases: ["bitcoin", "bitcoins", "₿"],
+    subUnits: [{ names: ["sat", "sats", "satoshi", "satoshis"], perUnit: 1e8 }],
+    coinId: "bitcoin",
+  },
+  {
+    code: "ETH",
+    name: "Ether",
+    symbol: "Ξ",
+    assetClass: "crypto",
+    decimals: 18,
+    aliases: ["ether", "ethereum", "Ξ"],
+    subUnits: [
+      { names: ["gwei"], perUnit: 1e9 },
+      { names: ["wei"], perUnit: 1e18 },
+    ],
+    coinId: "ethereum",
+  },
+  {
+    code: "USDT",
+    name: "Tether",
+    symbol: "₮",
+    assetClass: "crypto",
+    decimals: 6,
+    aliases: ["tether"],
+    coinId: "tether",
+  },
+];
+
+// Precious metals, priced per troy ounce
+const metal = (code: string, name: string, aliases: string[]): Currency => ({
+  code,
+  name,
+  symbol: "",
+  assetClass: "metal",
+  decimals: 4,
+  aliases,
+});
+
+const METALS: Currency[] = [
+  metal("XAU", "Gold", ["gold"]),
+  metal("XAG", "Silver", ["silver"]),
+  metal("XPT", "Platinum", ["platinum"]),
+  metal("XPD", "Palladium", ["palladium"]),
+];
+
+// Extra tokens from VITE_CRYPTO_TOKENS, as "CODE:coin-id:Name" entries
+// separated by commas, e.g. "SOL:solana:Solana,DOGE:dogecoin:Dogecoin"
+function configuredCrypto(): Currency[] {
+  const config = import.meta.env.VITE_CRYPTO_TOKENS;
+  if (!config) {
+    return [];
+  }
+
+  return config
+    .split(",")
+    .map((entry) => entry.trim().split(":"))
+    .filter(([code, coinId]) => code && coinId)
+    .map(([code, coinId, name]) => ({
+      code: code.toUpperCase(),
+      name: name || code.toUpperCase(),
+      symbol: code.toUpperCase(),
+      assetClass: "crypto",
+      decimals: 8,
+      aliases: name ? [name.toLowerCase()] : [],
+      coinId,
+    }));
+}
+
+export const CURRENCY_LIST: Currency[] = [
+  ...FIAT_CURRENCIES,
+  ...BUILT_IN_CRYPTO,
+  ...configuredCrypto(),
+  ...METALS,
+];
+
+// Currency symbols mapping for formatting
+export const CURRENCY_SYMBOLS: Record<string, string> = Object.fromEntries(
+  CURRENCY_LIST.map((currency) => [currency.code, currency.symbol])
+);
+
+const CURRENCIES_BY_CODE = new Map(CURRENCY_LIST.map((currency) => [currency.code, currency]));
+
+export function getCurrency(code: string): Currency | undefined {
+  return CURRENCIES_BY_CODE.get(code);
+}
+
+export function getAssetClass(code: string): AssetClass {
+  return getCurrency(code)?.assetClass ?? "fiat";
+}
+
+export function getCurrenciesByClass(assetClass: AssetClass): Currency[] {
+  return CURRENCY_LIST.filter((currency) => currency.assetClass === assetClass);
+}
+
+export interface WeightUnit {
+  // Singular and plural labels used when formatting
+  label: string;
+  plural: string;
+  // Words the parser accepts for the unit
+  names: string[];
+  grams: number;
+}
+
+const GRAMS_PER_TROY_OUNCE = 31.1034768;
+
+export const WEIGHT_UNITS: WeightUnit[] = [
+  {
+    label: "troy ounce",
+    plural: "troy ounces",
+    names: ["troy ounces", "troy ounce", "troy oz", "ounces", "ounce", "ozt", "oz"],
+    grams: GRAMS_PER_TROY_OUNCE,
+  },
+  { label: "gram", plural: "grams", names: ["grams", "gram", "gms", "gm", "g"], grams: 1 },
+  {
+    label: "kilogram",
+    plural: "kilograms",
+    names: ["kilograms", "kilogram", "kilos", "kilo", "kg"],
+    grams: 1000,
+  },
+  // Traditional South Asian unit for gold (180 grains)
+  { label: "tola", plural: "tolas", names: ["tolas", "tola"], grams: 11.6638038 },
+];
+
+// Metal amounts are priced per troy ounce, so weights convert through it
+export function toTroyOunces(quantity: number, unit: WeightUnit): number {
+  return (quantity * unit.grams) / GRAMS_PER_TROY_OUNCE;
+}
+
+export function fromTroyOunces(ounces: number, unit: WeightUnit): number {
+  return (ounces * GRAMS_PER_TROY_OUNCE) / unit.grams;
+}
+
+// Fraction digits to show an amount with: up to the currency's own number,
+// but none beyond the significant digits of the rate it was converted at
+// (0.035806037251123954 ETH from a 4-digit quote shows as 0.03581)
+export function amountFractionDigits(amount: number, code: string, precision = 6): number {
+  const magnitude = amount === 0 ? 0 : Math.floor(Math.log10(Math.abs(amount)));
+  const decimals = Math.max(getCurrency(code)?.decimals ?? 2, 2);
+  return Math.min(decimals, Math.max(precision - magnitude - 1, 2));
+}
+
+// "$1,234.56 USD" with the currency's own number of fraction digits, limited
+// to the significant digits of the rate behind the amount
+export function formatMoney(amount: number, code: string, precision?: number): string {
+  const formatted = new Intl.NumberFormat("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: amountFractionDigits(amount, code, precision),
+  }).format(amount);
+  return `${CURRENCY_SYMBOLS[code] ?? ""}${formatted} ${code}`;
+}
@@ -0,0 +1,22 @@
+// Currencies the user converts into most, used for "convert 50 euros into
+// all my favourite currencies"
+const FAVOURITES_KEY = "currency-whisper:favourite-currencies";
+
+export const DEFAULT_FAVOURITE_CURRENCIES = ["USD", "EUR", "GBP", "JPY", "INR"];
+
+export function loadFavouriteCurrencies(): string[] {
+  try {
+    const stored = localStorage.getItem(FAVOURITES_KEY);
+    return stored ? (JSON.parse(stored) as string[]) : DEFAULT_FAVOURITE_CURRENCIES;
+  } catch {
+    return DEFAULT_FAVOURITE_CURRENCIES;
+  }
+}
+
+export function saveFavouriteCurrencies(codes: string[]) {
+  try {
+    localStorage.setItem(FAVOURITES_KEY, JSON.stringify(codes));
+  } catch {
+    // Storage unavailable; the selection only lasts for this session
+  }
+}
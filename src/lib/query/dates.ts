@@ -0,0 +1,90 @@
+import { format, isValid, parse, startOfToday, subDays } from "date-fns";
+import { ISO_DAY } from "@/lib/rates/business-days";
+import { ParseError, Span } from "./types";
+
+export interface DateMatch {
+  span: Span;
+  date?: string;
+  error?: ParseError;
+}
+
+// The word introducing a date is part of the phrase
+const PREPOSITION = String.raw`(?:\b(?:on|for|as of|dated)\s+)?`;
+
+const DATE_PATTERNS: { regex: RegExp; formats: string[]; strict?: boolean }[] = [
+  { regex: /\b\d{4}-\d{2}-\d{2}\b/, formats: ["yyyy-MM-dd"], strict: true },
+  {
+    regex: /\b\d{1,2}(?:st|nd|rd|th)?\s+[a-z]{3,9}\.?,?\s+\d{4}\b/,
+    formats: ["do MMMM yyyy", "do MMM yyyy", "d MMMM yyyy", "d MMM yyyy"],
+  },
+  {
+    regex: /\b[a-z]{3,9}\.?\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4}\b/,
+    formats: ["MMMM do yyyy", "MMM do yyyy", "MMMM d yyyy", "MMM d yyyy"],
+  },
+];
+
+// "feb", "february" and so on
+function isMonthName(word: string) {
+  return ["MMM", "MMMM"].some((dateFormat) => isValid(parse(word, dateFormat, new Date())));
+}
+
+function overlaps(a: Span, b: Span) {
+  return a.start < b.end && b.start < a.end;
+}
+
+// Finds rate dates ("on 2023-05-01", "on 1 May 2023", "yesterday") in a
+// lowercased query. Dates that aren't real ("2023-02-30", "30 feb 2023") and
+// future dates are returned with an error; other near misses ("12 apples
+// 2024") are simply not dates.
+export function findDates(query: string): DateMatch[] {
+  const matches: DateMatch[] = [];
+
+  for (const match of query.matchAll(/\b(?:as of\s+)?yesterday\b/g)) {
+    matches.push({
+      span: { start: match.index!, end: match.index! + match[0].length },
+      date: format(subDays(startOfToday(), 1), ISO_DAY),
+    });
+  }
+
+  for (const { regex, formats, strict } of DATE_PATTERNS) {
+    const phrase = new RegExp(`${PREPOSITION}(${regex.source})`, "g");
+
+    for (const match of query.matchAll(phrase)) {
+      const span = { start: match.index!, end: match.index! + match[0].length };
+      if (matches.some((found) => overlaps(found.span, span))) {
+        continue;
+      }
+
+      const text = match[1].replace(/[.,]/g, "").replace(/\s+/g, " ");
+      const parsed = formats
+        .map((dateFormat) => parse(text, dateFormat, new Date()))
+        .find(isValid);
+
+      if (!parsed) {
+        const word = text.match(/[a-z]+/)?.[0];
+        if (strict || (word && isMonthName(word))) {
+          matches.push({
+            span,
+            error: { code: "invalid-date", message: `"${match[1]}" is not a valid date.`, span },
+          });
+        }
+        continue;
+      }
+
+      matches.push(
+        parsed > startOfToday()
+          ? {
+              span,
+              error: {
+                code: "future-date",
+                message: "Historical rates are only available for past dates.",
+                span,
+              },
+            }
+          : { span, date: format(parsed, ISO_DAY) }
+      );
+    }
+  }
+
+  return matches.sort((a, b) => a.span.start - b.span.start);
+}
@@ -0,0 +1,3 @@
+export * from "./types";
+export { tokenize } from "./tokenizer";
+export { isConversionTarget, isFirstOfUnit, parseQuery } from "./parser";
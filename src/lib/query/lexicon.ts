@@ -0,0 +1,83 @@
+import { CURRENCY_LIST, WEIGHT_UNITS, WeightUnit } from "@/lib/currencies";
+import { Keyword } from "./types";
+
+export type LexiconEntry =
+  | { kind: "currency"; code: string }
+  | { kind: "subunit"; code: string; perUnit: number }
+  | { kind: "weight"; unit: WeightUnit }
+  | { kind: "keyword"; keyword: Keyword };
+
+const KEYWORDS: Record<string, Keyword> = {
+  convert: "convert",
+  exchange: "convert",
+  change: "convert",
+  to: "to",
+  in: "to",
+  into: "to",
+  from: "from",
+  against: "against",
+  vs: "against",
+  versus: "against",
+  rate: "rate",
+  rates: "rate",
+  fx: "rate",
+  compare: "compare",
+  history: "history",
+  historical: "history",
+  chart: "history",
+  trend: "history",
+  last: "last",
+  past: "last",
+  of: "of",
+  and: "and",
+  favourite: "favourites",
+  favourites: "favourites",
+  favorite: "favourites",
+  favorites: "favourites",
+};
+
+// Every word or phrase the tokenizer recognises, lowercased as queries are
+// ("Ξ" is stored as "ξ"). Later entries don't replace earlier ones, so
+// sub-units and weights win over currency aliases that happen to collide
+// with them.
+function buildLexicon(): Map<string, LexiconEntry> {
+  const lexicon = new Map<string, LexiconEntry>();
+  const add = (phrase: string, entry: LexiconEntry) => {
+    const key = phrase.toLowerCase();
+    if (!lexicon.has(key)) {
+      lexicon.set(key, entry);
+    }
+  };
+
+  for (const currency of CURRENCY_LIST) {
+    for (const unit of currency.subUnits ?? []) {
+      unit.names.forEach((name) =>
+        add(name, { kind: "subunit", code: currency.code, perUnit: unit.perUnit })
+      );
+    }
+  }
+  for (const unit of WEIGHT_UNITS) {
+    unit.names.forEach((name) => add(name, { kind: "weight", unit }));
+  }
+  for (const currency of CURRENCY_LIST) {
+    for (const alias of [currency.code.toLowerCase(), ...currency.aliases]) {
+      add(alias, { kind: "currency", code: currency.code });
+      // "canadian dollars" as well as "canadian dollar"
+      if (/[a-z]$/.test(alias) && !alias.endsWith("s")) {
+        add(`${alias}s`, { kind: "currency", code: currency.code });
+      }
+    }
+  }
+  for (const [word, keyword] of Object.entries(KEYWORDS)) {
+    add(word, { kind: "keyword", keyword });
+  }
+
+  return lexicon;
+}
+
+export const LEXICON = buildLexicon();
+
+// Longest phrase in the lexicon, in words
+export const MAX_PHRASE_WORDS = Math.max(
+  ...Array.from(LEXICON.keys()).map((phrase) => phrase.split(" ").length)
+);
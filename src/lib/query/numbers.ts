@@ -0,0 +1,221 @@
+import type { RawToken } from "./tokenizer";
+
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+// Multipliers written as words, including the South Asian lakh (1,00,000)
+// and crore (1,00,00,000)
+const SCALES: Record<string, number> = {
+  thousand: 1e3,
+  thousands: 1e3,
+  lakh: 1e5,
+  lakhs: 1e5,
+  lac: 1e5,
+  lacs: 1e5,
+  million: 1e6,
+  millions: 1e6,
+  crore: 1e7,
+  crores: 1e7,
+  billion: 1e9,
+  billions: 1e9,
+};
+
+// Abbreviations follow the digits ("5k", "2.5m", "1bn"). A detached one
+// ("5 k") still counts rather than being dropped; the amount then reads
+// differently from the result, so it is echoed back to the user.
+const SUFFIXES: Record<string, number> = {
+  k: 1e3,
+  m: 1e6,
+  mn: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  cr: 1e7,
+};
+
+export interface NumberPhrase {
+  value: number;
+  // How many raw tokens the phrase covers
+  consumed: number;
+  // Set when the separators could be read either way and the locale decided
+  ambiguous?: boolean;
+  // Set for Indian digit grouping (1,00,000) or lakh/crore amounts
+  indian?: boolean;
+}
+
+interface Numeral {
+  value: number;
+  ambiguous?: boolean;
+  indian?: boolean;
+}
+
+// The decimal separator the locale writes, "." or ","
+export function decimalSeparator(locale?: string): string {
+  const parts = new Intl.NumberFormat(locale).formatToParts(1.5);
+  return parts.find((part) => part.type === "decimal")?.value ?? ".";
+}
+
+// Western grouping (1,234,567 or 1.234.567) or Indian (12,34,567)
+function readGroups(whole: string, separator: string) {
+  const groups = whole.split(separator);
+  if (groups.length === 1) {
+    return { valid: true };
+  }
+  const [first, ...rest] = groups;
+  if (first.length <= 3 && rest.every((group) => group.length === 3)) {
+    return { valid: true };
+  }
+  const last = rest.pop();
+  const indian =
+    separator === "," && first.length <= 2 && last.length === 3 && rest.every((group) => group.length === 2);
+  return { valid: indian, indian };
+}
+
+// Reads digits written with any of the usual conventions: "1,234.56",
+// "1.234,56", "1,5", "1,00,000". A single separator followed by exactly three
+// digits ("1,234", "1.234") could be a decimal or a thousands separator, so
+// the locale decides and the result is flagged as ambiguous. Returns null
+// for digits that follow no convention ("1,2,3").
+export function parseNumeral(text: string, decimal = decimalSeparator()): Numeral | null {
+  const separators = text.match(/[.,]/g) ?? [];
+  if (text.startsWith(".")) {
+    return separators.length === 1 ? { value: Number(`0${text}`) } : null;
+  }
+  if (separators.length === 0) {
+    return { value: Number(text) };
+  }
+
+  let point: string | undefined;
+  let ambiguous = false;
+  if (new Set(separators).size === 2) {
+    // Both kinds: the last one is the decimal point, and it appears once
+    point = separators[separators.length - 1];
+    if (separators.filter((separator) => separator === point).length > 1) {
+      return null;
+    }
+  } else if (separators.length === 1) {
+    const [whole, fraction] = text.split(/[.,]/);
+    if (fraction.length !== 3 || whole.length > 3 || /^0+$/.test(whole)) {
+      point = separators[0];
+    } else {
+      ambiguous = true;
+      point = separators[0] === decimal ? decimal : undefined;
+    }
+  }
+
+  const index = point ? text.lastIndexOf(point) : text.length;
+  const whole = text.slice(0, index);
+  const grouping = point === "," ? "." : ",";
+  const groups = readGroups(whole, point ? grouping : separators[0]);
+  if (!groups.valid) {
+    return null;
+  }
+
+  const digits = whole.replace(/[.,]/g, "") + (point ? `.${text.slice(index + 1)}` : "");
+  return { value: Number(digits), ambiguous: ambiguous || undefined, indian: groups.indian || undefined };
+}
+
+export function isDigits(text: string) {
+  return /^[\d.]/.test(text) && /\d/.test(text);
+}
+
+function isNumberWord(text: string) {
+  return text in UNITS || text in TENS || text === "hundred" || text in SCALES;
+}
+
+// Reads an amount starting at raw[start]: digits with an optional magnitude
+// ("5k", "2.5 million", "3 lakh", "1.2 crore"), spelled-out numbers ("two
+// hundred and fifty", "twenty-five") and "a million" / "half a million".
+// Separators in the digits are read as described for parseNumeral. Returns
+// null when there is no amount here.
+export function readNumber(raw: RawToken[], start: number, decimal = decimalSeparator()): NumberPhrase | null {
+  const word = (index: number) => raw[index]?.text;
+
+  let i = start;
+  let multiplier = 1;
+  // "half a million"
+  if (word(i) === "half" && ["a", "an"].includes(word(i + 1)) && word(i + 2) in SCALES) {
+    multiplier = 0.5;
+    i++;
+  }
+  // "a million", "a hundred"
+  const article = ["a", "an"].includes(word(i)) && (word(i + 1) === "hundred" || word(i + 1) in SCALES);
+  if (article) {
+    i++;
+  } else if (!isDigits(word(i) ?? "") && !isNumberWord(word(i) ?? "")) {
+    return null;
+  }
+  if (!article && word(i) in SCALES) {
+    // A bare "million" isn't an amount
+    return null;
+  }
+
+  let total = 0;
+  let current = article ? 0 : NaN;
+  let last: "digits" | "word" | "scale" | null = null;
+  let ambiguous = false;
+  let indian = false;
+
+  for (; i < raw.length; i++) {
+    const token = word(i);
+
+    if (isDigits(token)) {
+      // Digits start an amount or follow a scale ("2 million 500 thousand")
+      const numeral = parseNumeral(token, decimal);
+      if (!numeral || (last !== null && last !== "scale")) {
+        break;
+      }
+      current = (isNaN(current) ? 0 : current) + numeral.value;
+      ambiguous = ambiguous || !!numeral.ambiguous;
+      indian = indian || !!numeral.indian;
+      last = "digits";
+      const suffix = word(i + 1);
+      if (suffix in SUFFIXES) {
+        total += current * SUFFIXES[suffix];
+        indian = indian || suffix === "cr";
+        current = 0;
+        last = "scale";
+        i++;
+      }
+    } else if (token in UNITS || token in TENS) {
+      if (last === "digits") {
+        break;
+      }
+      current = (isNaN(current) ? 0 : current) + (UNITS[token] ?? TENS[token]);
+      last = "word";
+    } else if (token === "hundred" && last !== "scale") {
+      current = (isNaN(current) || current === 0 ? 1 : current) * 100;
+      last = "word";
+    } else if (token in SCALES) {
+      total += (isNaN(current) || current === 0 ? 1 : current) * SCALES[token];
+      indian = indian || SCALES[token] === 1e5 || SCALES[token] === 1e7;
+      current = 0;
+      last = "scale";
+    } else if (
+      ((token === "and" && last !== "digits") || (token === "-" && last === "word")) &&
+      (word(i + 1) in UNITS || word(i + 1) in TENS)
+    ) {
+      // "two hundred and fifty", "twenty-five"
+      continue;
+    } else {
+      break;
+    }
+  }
+
+  if (i === start) {
+    return null;
+  }
+  const value = (total + (isNaN(current) ? 0 : current)) * multiplier;
+  return {
+    value,
+    consumed: i - start,
+    ambiguous: ambiguous || undefined,
+    indian: indian || undefined,
+  };
+}
@@ -0,0 +1,322 @@
+import { tokenize } from "./tokenizer";
+import {
+  AmountPhrase,
+  CurrencyRef,
+  DatePhrase,
+  Intent,
+  Keyword,
+  ParseError,
+  ParseOptions,
+  ParseResult,
+  Span,
+  Token,
+} from "./types";
+
+type Role = "source" | "target" | "base";
+
+interface Mention {
+  ref: CurrencyRef;
+  role?: Role;
+  // Index of the first token of the mention
+  index: number;
+}
+
+const DAYS_PER_UNIT: Record<string, number> = {
+  day: 1,
+  days: 1,
+  week: 7,
+  weeks: 7,
+  month: 30,
+  months: 30,
+  year: 365,
+  years: 365,
+};
+
+const ROLE_KEYWORDS: Partial<Record<Keyword, Role>> = {
+  from: "source",
+  to: "target",
+  against: "base",
+};
+
+function fail(tokens: Token[], error: ParseError): ParseResult {
+  return { ok: false, error, tokens };
+}
+
+function join(a: Span, b: Span): Span {
+  return { start: Math.min(a.start, b.start), end: Math.max(a.end, b.end) };
+}
+
+function hasKeyword(tokens: Token[], keyword: Keyword) {
+  return tokens.some((token) => token.kind === "keyword" && token.keyword === keyword);
+}
+
+// Currencies in the order they appear. A weight followed by a metal
+// ("grams of silver") is one mention, as is a sub-unit ("sats").
+function findMentions(tokens: Token[]): Mention[] {
+  const mentions: Mention[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.kind === "weight") {
+      const following = tokens[i + 1];
+      const next = following?.kind === "keyword" && following.keyword === "of" ? i + 2 : i + 1;
+      const metal = tokens[next];
+      if (metal?.kind === "currency") {
+        mentions.push({ ref: { code: metal.code, span: join(token.span, metal.span), unit: token.unit }, index: i });
+        i = next;
+      }
+    } else if (token.kind === "subunit") {
+      const subunit = { name: token.text.toLowerCase(), perUnit: token.perUnit };
+      mentions.push({ ref: { code: token.code, span: token.span, subunit }, index: i });
+    } else if (token.kind === "currency") {
+      mentions.push({ ref: { code: token.code, span: token.span }, index: i });
+    }
+  }
+
+  return mentions;
+}
+
+// Gives each mention a role from the keyword in front of it ("from",
+// "to"/"in", "against"), skipping filler words ("to the euro"). A currency
+// right after the amount is the source, as is a symbol attached to it on
+// either side ("$100", "100€").
+function assignRoles(tokens: Token[], mentions: Mention[], amountIndex?: number) {
+  const amount = tokens[amountIndex];
+  for (const mention of mentions) {
+    const { span } = mention.ref;
+    if (amount && (span.end === amount.span.start || span.start === amount.span.end)) {
+      mention.role = "source";
+      continue;
+    }
+    for (let i = mention.index - 1; i >= 0; i--) {
+      const token = tokens[i];
+      if (token.kind === "word" || token.kind === "punct") {
+        continue;
+      }
+      if (token.kind === "keyword" && ROLE_KEYWORDS[token.keyword]) {
+        mention.role = ROLE_KEYWORDS[token.keyword];
+      } else if (i === amountIndex) {
+        mention.role = "source";
+      }
+      break;
+    }
+  }
+}
+
+// "last 3 months", "past year"
+function findRange(tokens: Token[]): { days: number; indexes: number[] } | undefined {
+  const start = tokens.findIndex((token) => token.kind === "keyword" && token.keyword === "last");
+  if (start < 0) {
+    return undefined;
+  }
+
+  const count = tokens[start + 1]?.kind === "number" ? tokens[start + 1] : undefined;
+  const unit = tokens[start + (count ? 2 : 1)];
+  const perUnit = unit && DAYS_PER_UNIT[unit.text.toLowerCase()];
+  if (!perUnit) {
+    return undefined;
+  }
+
+  return {
+    days: Math.round((count?.kind === "number" ? count.value : 1) * perUnit),
+    indexes: count ? [start + 1] : [],
+  };
+}
+
+// Source and target from the mentions: explicit roles first, then the
+// remaining currencies in order
+function pickPair(mentions: Mention[]) {
+  const remaining = mentions.filter((mention) => !mention.role);
+  const source =
+    mentions.find((mention) => mention.role === "source") ?? remaining.shift();
+  const target =
+    mentions.find((mention) => mention.role === "target" || mention.role === "base") ??
+    remaining.shift();
+  return { source, target };
+}
+
+// What an answer is expressed in: a currency, or one of its sub-units
+function unitKey({ code, subunit }: Pick<CurrencyRef, "code" | "subunit">): string {
+  return subunit ? `${code}/${subunit.perUnit}` : code;
+}
+
+// Whether a currency can be converted into from the source: another currency,
+// or a sub-unit of the source currency ("1 btc in sats")
+export function isConversionTarget(
+  target: Pick<CurrencyRef, "code" | "subunit">,
+  source: Pick<CurrencyRef, "code" | "subunit">
+): boolean {
+  return target.code !== source.code || (!!target.subunit && unitKey(target) !== unitKey(source));
+}
+
+// Drops all but the first mention of each currency or sub-unit
+export function isFirstOfUnit<T extends Pick<CurrencyRef, "code" | "subunit">>(
+  ref: T,
+  index: number,
+  all: T[]
+): boolean {
+  return all.findIndex((other) => unitKey(other) === unitKey(ref)) === index;
+}
+
+// The amount token, in whole units of the source currency
+function readAmount(token: Token, source: Mention): AmountPhrase {
+  return {
+    value: token.kind === "number" ? token.value / (source.ref.subunit?.perUnit ?? 1) : NaN,
+    written: token.kind === "number" ? token.value : NaN,
+    span: token.span,
+    text: token.text,
+    ambiguous: token.kind === "number" ? token.ambiguous : undefined,
+    indian: token.kind === "number" ? token.indian : undefined,
+  };
+}
+
+// Parses a natural-language query into a typed intent. Every recognised
+// token comes back with its span, and anything that stops the query from
+// being understood is reported as a ParseError rather than guessed at.
+export function parseQuery(query: string, options: ParseOptions = {}): ParseResult {
+  const tokens = tokenize(query, options);
+
+  if (tokens.length === 0) {
+    return fail(tokens, {
+      code: "empty-query",
+      message: "Try something like 'Convert 100 USD to EUR'.",
+    });
+  }
+
+  const dateTokens = tokens.filter((token) => token.kind === "date");
+  const dateError = dateTokens.find((token) => token.error);
+  if (dateError?.kind === "date" && dateError.error) {
+    return fail(tokens, dateError.error);
+  }
+  if (dateTokens.length > 1) {
+    return fail(tokens, {
+      code: "multiple-dates",
+      message: "Please give a single date for the rate.",
+      span: dateTokens[1].span,
+    });
+  }
+  const dateToken = dateTokens[0];
+  const date: DatePhrase | undefined =
+    dateToken?.kind === "date" && dateToken.date
+      ? { date: dateToken.date, span: dateToken.span }
+      : undefined;
+
+  const amountError = tokens.find((token) => token.kind === "number" && token.error);
+  if (amountError?.kind === "number" && amountError.error) {
+    return fail(tokens, amountError.error);
+  }
+
+  const isHistory = hasKeyword(tokens, "history");
+  const range = isHistory ? findRange(tokens) : undefined;
+  const numberIndexes = tokens
+    .map((token, index) => (token.kind === "number" ? index : -1))
+    .filter((index) => index >= 0 && !range?.indexes.includes(index));
+
+  if (numberIndexes.length > 1) {
+    return fail(tokens, {
+      code: "multiple-amounts",
+      message: "Found more than one amount. Please convert one amount at a time.",
+      span: tokens[numberIndexes[1]].span,
+    });
+  }
+  const amountIndex = numberIndexes[0] as number | undefined;
+
+  const mentions = findMentions(tokens);
+  assignRoles(tokens, mentions, amountIndex);
+
+  if (mentions.length === 0) {
+    return fail(tokens, {
+      code: "missing-currency",
+      message: "Couldn't find any currency in your query. Please name the currencies to convert between.",
+    });
+  }
+
+  if (hasKeyword(tokens, "compare") && mentions.length >= 2) {
+    const base = mentions.find((mention) => mention.role === "base") ?? mentions[0];
+    const others = mentions.filter(
+      (mention) => mention !== base && mention.ref.code !== base.ref.code
+    );
+    if (others.length > 0) {
+      return {
+        ok: true,
+        intent: { kind: "compare", base: base.ref, others: others.map((mention) => mention.ref), date },
+        tokens,
+      };
+    }
+  }
+
+  // "all my favourite currencies" stands in for the targets
+  const favourites = hasKeyword(tokens, "favourites");
+  const { source, target } = pickPair(mentions);
+  if (!source || (!target && !favourites)) {
+    return fail(tokens, {
+      code: "missing-currency",
+      message: "Please specify both the source and target currencies more clearly.",
+      span: mentions[0].ref.span,
+    });
+  }
+
+  const extraSource = mentions.find(
+    (mention) => mention.role === "source" && mention.ref.code !== source.ref.code
+  );
+  if (extraSource) {
+    return fail(tokens, {
+      code: "multiple-sources",
+      message: "Please convert from one currency at a time.",
+      span: extraSource.ref.span,
+    });
+  }
+
+  // Every other currency or sub-unit is a target, each once, in the order given
+  const targets = mentions.filter(
+    (mention, index) =>
+      isConversionTarget(mention.ref, source.ref) &&
+      isFirstOfUnit(mention.ref, index, mentions.map((other) => other.ref))
+  );
+
+  if (targets.length === 0 && !favourites) {
+    return fail(tokens, {
+      code: "same-currency",
+      message: `Both currencies are ${source.ref.code}. Please name two different currencies.`,
+      span: target.ref.span,
+    });
+  }
+
+  // Without an amount it's a rate question ("USD/EUR rate", "EURUSD", "how
+  // strong is the yen against the dollar"), unless a conversion was asked for
+  if (!isHistory && amountIndex === undefined && hasKeyword(tokens, "convert") && !hasKeyword(tokens, "rate")) {
+    return fail(tokens, {
+      code: "missing-amount",
+      message: "Couldn't identify an amount in your query. Please specify an amount to convert.",
+    });
+  }
+  const amount = amountIndex === undefined ? undefined : readAmount(tokens[amountIndex], source);
+
+  let intent: Intent;
+  if (isHistory) {
+    if (targets.length !== 1) {
+      return fail(tokens, {
+        code: "multiple-targets",
+        message: "Please chart one currency pair at a time.",
+        span: targets[1]?.ref.span,
+      });
+    }
+    intent = { kind: "history", amount, from: source.ref, to: targets[0].ref, days: range?.days };
+  } else if (favourites || targets.length > 1) {
+    intent = {
+      kind: "convert-many",
+      amount,
+      from: source.ref,
+      to: targets.map((mention) => mention.ref),
+      favourites,
+      date,
+    };
+  } else if (!amount) {
+    intent = { kind: "rate", from: source.ref, to: targets[0].ref, date };
+  } else {
+    intent = { kind: "convert", amount, from: source.ref, to: targets[0].ref, date };
+  }
+
+  return { ok: true, intent, tokens };
+}
@@ -0,0 +1,131 @@
+import { findDates } from "./dates";
+import { LEXICON, LexiconEntry, MAX_PHRASE_WORDS } from "./lexicon";
+import { decimalSeparator, isDigits, readNumber } from "./numbers";
+import { ParseOptions, Token } from "./types";
+
+// Digits with any mix of "." and "," separators (read by parseNumeral),
+// words (including "c$"-style prefixed symbols) and any other single
+// non-space character, so symbols come apart from amounts ("€1.234,56")
+const RAW_TOKEN = /\d+(?:[.,]\d+)*|\.\d+|[a-z]+\$|\p{L}+|\S/gu;
+
+export interface RawToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function isWord(raw: RawToken) {
+  return /^\p{L}/u.test(raw.text);
+}
+
+// Six letters made of two currency codes, as pairs are written in FX ("eurusd")
+function splitPairCode(word: string): [string, string] | null {
+  if (!/^[a-z]{6}$/.test(word)) {
+    return null;
+  }
+  const codes = [word.slice(0, 3), word.slice(3)].map((half) => {
+    const entry = LEXICON.get(half);
+    return entry?.kind === "currency" && entry.code.toLowerCase() === half ? entry.code : null;
+  });
+  return codes[0] && codes[1] ? [codes[0], codes[1]] : null;
+}
+
+// "¥" is both the yen and the yuan: the yuan in Chinese locales, else the yen
+function yenSignCode(locale?: string): string {
+  return new Intl.NumberFormat(locale).resolvedOptions().locale.startsWith("zh") ? "CNY" : "JPY";
+}
+
+// Splits a query into typed tokens, each with its span in the original text.
+// Dates are recognised first, then multi-word phrases from the lexicon
+// ("troy ounces", "canadian dollars") by longest match, then single words.
+// Unknown words stay in the stream as "word" tokens so nothing is silently
+// matched inside them.
+export function tokenize(query: string, { locale }: ParseOptions = {}): Token[] {
+  const text = query.toLowerCase();
+  const decimal = decimalSeparator(locale);
+  const dates = findDates(text);
+  const tokens: Token[] = dates.map(({ span, date, error }) => ({
+    kind: "date",
+    text: query.slice(span.start, span.end),
+    span,
+    date,
+    error,
+  }));
+
+  const raw: RawToken[] = Array.from(text.matchAll(RAW_TOKEN))
+    .map((match) => ({ text: match[0], start: match.index!, end: match.index! + match[0].length }))
+    .filter(({ start }) => !dates.some(({ span }) => start >= span.start && start < span.end));
+
+  for (let i = 0; i < raw.length; ) {
+    // Amounts first, as they can span several words ("half a million")
+    const number = readNumber(raw, i, decimal);
+    if (number) {
+      const span = { start: raw[i].start, end: raw[i + number.consumed - 1].end };
+      const { value, ambiguous, indian } = number;
+      tokens.push({ kind: "number", text: query.slice(span.start, span.end), span, value, ambiguous, indian });
+      i += number.consumed;
+      continue;
+    }
+    if (isDigits(raw[i].text)) {
+      const span = { start: raw[i].start, end: raw[i].end };
+      const original = query.slice(span.start, span.end);
+      tokens.push({
+        kind: "number",
+        text: original,
+        span,
+        value: NaN,
+        error: {
+          code: "invalid-amount",
+          message: `Couldn't read "${original}" as an amount. Try writing it like 1,234.56 or 1.234,56.`,
+          span,
+        },
+      });
+      i++;
+      continue;
+    }
+
+    let consumed = 1;
+
+    // Longest phrase of consecutive words separated only by whitespace
+    for (let length = Math.min(MAX_PHRASE_WORDS, raw.length - i); length > 1; length--) {
+      const words = raw.slice(i, i + length);
+      const contiguous = words.every(
+        (word, index) =>
+          isWord(word) && (index === 0 || /^\s+$/.test(text.slice(words[index - 1].end, word.start)))
+      );
+      const phrase = words.map((word) => word.text).join(" ");
+      if (contiguous && LEXICON.has(phrase)) {
+        consumed = length;
+        break;
+      }
+    }
+
+    const first = raw[i];
+    const last = raw[i + consumed - 1];
+    const span = { start: first.start, end: last.end };
+    const original = query.slice(span.start, span.end);
+    const phrase = raw.slice(i, i + consumed).map((word) => word.text).join(" ");
+    const entry: LexiconEntry | undefined =
+      phrase === "¥" ? { kind: "currency", code: yenSignCode(locale) } : LEXICON.get(phrase);
+    const pair = consumed === 1 ? splitPairCode(phrase) : null;
+
+    if (entry) {
+      tokens.push({ ...entry, text: original, span });
+    } else if (pair) {
+      // "EURUSD" is two currency tokens, each with its own half of the span
+      const middle = span.start + 3;
+      tokens.push(
+        { kind: "currency", code: pair[0], text: query.slice(span.start, middle), span: { start: span.start, end: middle } },
+        { kind: "currency", code: pair[1], text: query.slice(middle, span.end), span: { start: middle, end: span.end } }
+      );
+    } else if (isWord(first)) {
+      tokens.push({ kind: "word", text: original, span });
+    } else {
+      tokens.push({ kind: "punct", text: original, span });
+    }
+
+    i += consumed;
+  }
+
+  return tokens.sort((a, b) => a.span.start - b.span.start);
+}
@@ -0,0 +1,165 @@
+import { WeightUnit } from "@/lib/currencies";
+
+// Character offsets into the original query, end exclusive
+export interface Span {
+  start: number;
+  end: number;
+}
+
+export type Keyword =
+  | "convert"
+  | "to"
+  | "from"
+  | "against"
+  | "rate"
+  | "compare"
+  | "history"
+  | "last"
+  | "of"
+  | "and"
+  | "favourites";
+
+interface BaseToken {
+  text: string;
+  span: Span;
+}
+
+export type Token =
+  // An amount, flagged when its separators were ambiguous (see parseNumeral)
+  // or it used Indian grouping or lakh/crore. Digits that follow no number
+  // convention ("1,2,3") carry an error instead of a value.
+  | (BaseToken & {
+      kind: "number";
+      value: number;
+      ambiguous?: boolean;
+      indian?: boolean;
+      error?: ParseError;
+    })
+  | (BaseToken & { kind: "currency"; code: string })
+  // A currency's sub-unit, e.g. "sats" (perUnit of them make one BTC)
+  | (BaseToken & { kind: "subunit"; code: string; perUnit: number })
+  | (BaseToken & { kind: "weight"; unit: WeightUnit })
+  // A date phrase including its preposition ("on 1 may 2023"). Phrases that
+  // look like dates but can't be used carry an error instead of a date.
+  | (BaseToken & { kind: "date"; date?: string; error?: ParseError })
+  | (BaseToken & { kind: "keyword"; keyword: Keyword })
+  | (BaseToken & { kind: "word" })
+  | (BaseToken & { kind: "punct" });
+
+export type TokenKind = Token["kind"];
+
+// A currency's sub-unit as written in the query ("sats", "gwei")
+export interface SubunitRef {
+  name: string;
+  // How many of them make one whole unit
+  perUnit: number;
+}
+
+export interface CurrencyRef {
+  code: string;
+  span: Span;
+  // Set when a metal is given by weight ("3 troy ounces of gold")
+  unit?: WeightUnit;
+  // Set when the currency is given in a sub-unit ("sats"), as a source or target
+  subunit?: SubunitRef;
+}
+
+export interface AmountPhrase {
+  // In whole units of the source currency (sub-units already divided out)
+  value: number;
+  // The number as written, with magnitudes applied ("2.5m" -> 2500000)
+  written: number;
+  span: Span;
+  text: string;
+  // Set when "1,234" or "1.234" could be read either way and the locale decided
+  ambiguous?: boolean;
+  // Set for Indian digit grouping (1,00,000) or lakh/crore amounts
+  indian?: boolean;
+}
+
+export interface DatePhrase {
+  // ISO day
+  date: string;
+  span: Span;
+}
+
+export interface ConvertIntent {
+  kind: "convert";
+  amount: AmountPhrase;
+  from: CurrencyRef;
+  to: CurrencyRef;
+  date?: DatePhrase;
+}
+
+// "100 usd to eur, gbp and jpy", "convert 50 euros into all my favourite
+// currencies"
+export interface MultiConvertIntent {
+  kind: "convert-many";
+  // Absent when only the rates were asked for ("usd to eur, gbp and jpy rates")
+  amount?: AmountPhrase;
+  from: CurrencyRef;
+  // Named targets in the order given
+  to: CurrencyRef[];
+  // The user's favourite currencies were asked for as well
+  favourites: boolean;
+  date?: DatePhrase;
+}
+
+// "USD/EUR rate", "exchange rate for usd to eur"
+export interface RateIntent {
+  kind: "rate";
+  from: CurrencyRef;
+  to: CurrencyRef;
+  date?: DatePhrase;
+}
+
+// "compare eur, gbp and jpy against usd": each currency against a base
+export interface CompareIntent {
+  kind: "compare";
+  base: CurrencyRef;
+  others: CurrencyRef[];
+  date?: DatePhrase;
+}
+
+// "usd to inr history for the last 3 months"
+export interface HistoryIntent {
+  kind: "history";
+  // Converted as well when given ("100 usd to eur history")
+  amount?: AmountPhrase;
+  from: CurrencyRef;
+  to: CurrencyRef;
+  // Length of the requested range, when given
+  days?: number;
+}
+
+export type Intent = ConvertIntent | MultiConvertIntent | RateIntent | CompareIntent | HistoryIntent;
+
+export type ParseErrorCode =
+  | "empty-query"
+  | "invalid-date"
+  | "invalid-amount"
+  | "future-date"
+  | "multiple-dates"
+  | "missing-amount"
+  | "multiple-amounts"
+  | "missing-currency"
+  | "multiple-sources"
+  | "multiple-targets"
+  | "same-currency";
+
+export interface ParseError {
+  code: ParseErrorCode;
+  message: string;
+  // The part of the query the error is about, when there is one
+  span?: Span;
+}
+
+export interface ParseOptions {
+  // Decides ambiguous separators in amounts and whether "¥" is the yen or
+  // the yuan; the runtime's locale by default
+  locale?: string;
+}
+
+export type ParseResult =
+  | { ok: true; intent: Intent; tokens: Token[] }
+  | { ok: false; error: ParseError; tokens: Token[] };
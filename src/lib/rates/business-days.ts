@@ -0,0 +1,61 @@
+import { addDays, format, getDay, parseISO, subDays } from "date-fns";
+
+// Dates are exchanged as ISO calendar days ("2023-05-01") throughout
+export const ISO_DAY = "yyyy-MM-dd";
+
+// Gregorian Easter Sunday (anonymous algorithm)
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+// TARGET2 closing days, on which the ECB and the feeds built on it publish
+// no reference rates
+function holidays(year: number): Set<string> {
+  const easter = easterSunday(year);
+  return new Set([
+    `${year}-01-01`,
+    format(subDays(easter, 2), ISO_DAY),
+    format(addDays(easter, 1), ISO_DAY),
+    `${year}-05-01`,
+    `${year}-12-25`,
+    `${year}-12-26`,
+  ]);
+}
+
+export function isBusinessDay(day: string): boolean {
+  const date = parseISO(day);
+  const weekday = getDay(date);
+  return weekday !== 0 && weekday !== 6 && !holidays(date.getFullYear()).has(day);
+}
+
+// The first business day strictly after the given one
+export function nextBusinessDay(day: string): string {
+  let date = addDays(parseISO(day), 1);
+  while (!isBusinessDay(format(date, ISO_DAY))) {
+    date = addDays(date, 1);
+  }
+  return format(date, ISO_DAY);
+}
+
+// Resolves weekends and holidays to the nearest earlier business day
+export function previousBusinessDay(day: string): string {
+  let date = parseISO(day);
+  while (!isBusinessDay(format(date, ISO_DAY))) {
+    date = subDays(date, 1);
+  }
+  return format(date, ISO_DAY);
+}
@@ -0,0 +1,102 @@
+import { quoteThroughPivot } from "./cross-rates";
+import { RateProvider, RateTable, RequestOptions } from "./types";
+
+const STORAGE_PREFIX = "currency-whisper:rates:";
+
+// How long a table stays fresh when the provider doesn't announce its next update
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+
+// Historical tables get their own key per day
+function storageKey(provider: string, base: string, date?: string) {
+  return `${STORAGE_PREFIX}${provider}:${base}${date ? `@${date}` : ""}`;
+}
+
+export function readCachedTable(
+  provider: string,
+  base: string,
+  date?: string
+): RateTable | null {
+  try {
+    const raw = localStorage.getItem(storageKey(provider, base, date));
+    return raw ? (JSON.parse(raw) as RateTable) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeCachedTable(table: RateTable, date = table.date) {
+  try {
+    localStorage.setItem(
+      storageKey(table.provider, table.base, date),
+      JSON.stringify(table)
+    );
+  } catch (error) {
+    // Storage full or unavailable (private mode); the cache is best-effort
+    console.warn("Could not persist rate table:", error);
+  }
+}
+
+// When a table (or a pair quoted from one) is due to be replaced
+export function rateExpiresAt({
+  nextUpdateAt,
+  fetchedAt,
+  updatedAt,
+}: Pick<RateTable, "nextUpdateAt" | "fetchedAt" | "updatedAt">): number {
+  return nextUpdateAt ?? (fetchedAt ?? updatedAt) + DEFAULT_TTL_MS;
+}
+
+export function isTableFresh(table: RateTable, now = Date.now()): boolean {
+  return now < rateExpiresAt(table);
+}
+
+// Wraps a provider so tables are served from localStorage until the
+// provider's announced next update, and pairs are derived from those tables
+// (through the cross-rate pivot where possible).
+export function withRateCache(provider: RateProvider): RateProvider {
+  let lastUpdated: number | null = null;
+
+  const fetchLatest = async (base: string, options?: RequestOptions): Promise<RateTable> => {
+    const cached = readCachedTable(provider.id, base);
+    if (cached && isTableFresh(cached)) {
+      lastUpdated = cached.updatedAt;
+      return { ...cached, cached: true };
+    }
+
+    const table = { ...(await provider.fetchLatest(base, options)), fetchedAt: Date.now() };
+    writeCachedTable(table);
+    lastUpdated = table.updatedAt;
+    return { ...table, cached: false };
+  };
+
+  const fetchHistorical = async (
+    base: string,
+    date: string,
+    options?: RequestOptions
+  ): Promise<RateTable> => {
+    // A published day's table never changes and is kept for good. One for
+    // an earlier day may only mean the requested day isn't published yet,
+    // so it is refreshed like a latest table.
+    const cached = readCachedTable(provider.id, base, date);
+    if (cached && (cached.date === date || isTableFresh(cached))) {
+      return { ...cached, cached: true };
+    }
+
+    const table = {
+      ...(await provider.fetchHistorical!(base, date, options)),
+      fetchedAt: Date.now(),
+    };
+    // Key by the day that was asked for, even if the provider resolved it
+    // to an earlier business day
+    writeCachedTable(table, date);
+    return { ...table, cached: false };
+  };
+
+  return {
+    ...provider,
+    fetchLatest,
+    fetchHistorical: provider.fetchHistorical ? fetchHistorical : undefined,
+    fetchPair: (from, to, options) =>
+      quoteThroughPivot((base) => fetchLatest(base, options), from, to, provider.pivot),
+    lastUpdated: () => lastUpdated ?? provider.lastUpdated(),
+  };
+}
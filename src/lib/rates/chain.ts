@@ -0,0 +1,179 @@
+import { previousBusinessDay } from "./business-days";
+import { quoteThroughPivot } from "./cross-rates";
+import { isAbortError, throwIfAborted } from "./provider-utils";
+import {
+  PairRate,
+  ProviderFailure,
+  RateChainError,
+  RateProvider,
+  RateProviderError,
+  RateSeries,
+  RequestOptions,
+} from "./types";
+import { RateJump, RateValidationError, checkRateJump } from "./validation";
+
+export interface RateDivergence {
+  provider: string;
+  rate: number;
+  // Absolute difference relative to the served rate, in percent
+  percent: number;
+}
+
+export interface ChainResult {
+  pair: PairRate;
+  failures: ProviderFailure[];
+  // Set when a second source disagrees by more than the threshold
+  divergence?: RateDivergence;
+  // Set when the latest rate moved sharply since the provider's was last shown
+  jump?: RateJump;
+}
+
+export interface ChainOptions extends RequestOptions {
+  // Ask the next provider too and compare; off skips the second request
+  crossCheck?: boolean;
+  divergenceThreshold?: number;
+  // Quote the pair as of this ISO day instead of the latest table
+  date?: string;
+  // Compare with (and remember) the rate last shown for the pair. Only for
+  // rates that are actually shown, not background polls.
+  checkJump?: boolean;
+}
+
+export const DEFAULT_DIVERGENCE_THRESHOLD =
+  Number(import.meta.env.VITE_RATE_DIVERGENCE_PERCENT) || 1;
+
+// The cross-check only adds a warning to a rate we already have, so it gets
+// one short attempt instead of the full retry cycle
+const CROSS_CHECK_REQUEST: RequestOptions = { maxAttempts: 1, timeoutMs: 3_000 };
+
+// Tries each provider in order until one quotes the pair. Network errors,
+// HTTP errors and missing currencies all fall through to the next source.
+// Historical dates are first moved back to the nearest business day. The
+// cross-check asks only the next provider after the one that answered.
+export async function fetchPairWithFallback(
+  providers: RateProvider[],
+  from: string,
+  to: string,
+  options: ChainOptions = {}
+): Promise<ChainResult> {
+  const {
+    crossCheck = true,
+    divergenceThreshold = DEFAULT_DIVERGENCE_THRESHOLD,
+    date,
+    checkJump = false,
+    signal,
+    onRetry,
+  } = options;
+  const day = date ? previousBusinessDay(date) : undefined;
+  const failures: ProviderFailure[] = [];
+  let served: PairRate | null = null;
+
+  let divergence: RateDivergence | undefined;
+
+  for (const provider of providers) {
+    let pair: PairRate;
+    try {
+      throwIfAborted(signal);
+      pair = await quote(
+        provider,
+        from,
+        to,
+        day,
+        served ? { ...CROSS_CHECK_REQUEST, signal } : { signal, onRetry }
+      );
+    } catch (error) {
+      // Cancellation stops the whole chain rather than trying the next source
+      if (isAbortError(error)) {
+        throw error;
+      }
+      failures.push({
+        provider: provider.id,
+        message: error instanceof Error ? error.message : String(error),
+        invalid: error instanceof RateValidationError,
+      });
+      if (served) {
+        break;
+      }
+      continue;
+    }
+
+    if (!served) {
+      served = pair;
+      if (!crossCheck) {
+        break;
+      }
+      continue;
+    }
+
+    const percent = (Math.abs(pair.rate - served.rate) / served.rate) * 100;
+    if (percent > divergenceThreshold) {
+      divergence = { provider: pair.provider, rate: pair.rate, percent };
+    }
+    break;
+  }
+
+  if (!served) {
+    throw new RateChainError(`No provider could quote ${from}/${to}`, failures);
+  }
+
+  // Historical rates are expected to differ from today's
+  const jump = checkJump && !day ? checkRateJump(served) ?? undefined : undefined;
+  return { pair: served, failures, divergence, jump };
+}
+
+async function quote(
+  provider: RateProvider,
+  from: string,
+  to: string,
+  day: string | undefined,
+  options: RequestOptions
+): Promise<PairRate> {
+  if (!day) {
+    return provider.fetchPair(from, to, options);
+  }
+
+  if (!provider.fetchHistorical) {
+    throw new RateProviderError(`${provider.name} has no historical rates`, provider.id);
+  }
+
+  const pair = await quoteThroughPivot(
+    (base) => provider.fetchHistorical!(base, day, options),
+    from,
+    to,
+    provider.pivot
+  );
+  return { ...pair, date: pair.date ?? day };
+}
+
+// Daily series from the first provider in the chain that offers one
+export async function fetchSeriesWithFallback(
+  providers: RateProvider[],
+  from: string,
+  to: string,
+  start: string,
+  end: string,
+  options: RequestOptions = {}
+): Promise<RateSeries> {
+  const failures: ProviderFailure[] = [];
+
+  for (const provider of providers.filter((candidate) => candidate.fetchSeries)) {
+    try {
+      throwIfAborted(options.signal);
+      const series = await provider.fetchSeries!(from, to, start, end, options);
+      if (series.points.length > 0) {
+        return series;
+      }
+      failures.push({ provider: provider.id, message: "Empty rate series" });
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      failures.push({
+        provider: provider.id,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  throw new RateChainError(`No provider has a ${from}/${to} history`, failures);
+}
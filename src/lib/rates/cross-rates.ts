@@ -0,0 +1,73 @@
+import { PairRate, RateProviderError, RateTable } from "./types";
+import { validateRate } from "./validation";
+
+// Currency whose table every pair is derived from, so one cached table
+// serves all conversions. An empty VITE_CROSS_RATE_PIVOT disables this and
+// fetches a table per source currency instead.
+export const CROSS_RATE_PIVOT = (import.meta.env.VITE_CROSS_RATE_PIVOT ?? "USD") || null;
+
+// Significant digits in a quoted rate as published (0.9342 -> 4, 83.45 -> 4)
+function significantDigits(rate: number): number {
+  const [mantissa] = rate.toExponential().split("e");
+  return mantissa.replace(/[-.]/g, "").length;
+}
+
+function quoteAgainstBase(table: RateTable, code: string): number | undefined {
+  return code === table.base ? 1 : table.rates[code];
+}
+
+export function canDeriveCrossRate(table: RateTable, from: string, to: string): boolean {
+  return quoteAgainstBase(table, from) !== undefined && quoteAgainstBase(table, to) !== undefined;
+}
+
+// Derives from/to out of a table quoted in a third currency. The rate is a
+// single division of the two quotes, so no precision is lost to rounding an
+// intermediate leg; `precision` carries the digits the quotes support.
+export function deriveCrossRate(table: RateTable, from: string, to: string): PairRate {
+  const fromRate = quoteAgainstBase(table, from);
+  const toRate = quoteAgainstBase(table, to);
+
+  if (fromRate === undefined || toRate === undefined) {
+    throw new RateProviderError(`No ${from}/${to} rate available`, table.provider);
+  }
+  validateRate(fromRate, from, table.provider);
+  validateRate(toRate, to, table.provider);
+
+  const legs = [from, to].filter((code) => code !== table.base);
+  const precision = Math.min(
+    ...legs.map((code) => significantDigits(quoteAgainstBase(table, code)!))
+  );
+
+  return {
+    from,
+    to,
+    rate: from === to ? 1 : toRate / fromRate,
+    base: table.base,
+    updatedAt: table.updatedAt,
+    provider: table.provider,
+    fetchedAt: table.fetchedAt,
+    nextUpdateAt: table.nextUpdateAt,
+    cached: table.cached,
+    date: table.date,
+    path: legs.length === 2 ? [from, table.base, to] : [from, to],
+    precision: Number.isFinite(precision) ? precision : undefined,
+  };
+}
+
+// Quotes a pair from the pivot table when it covers both currencies, and
+// from the source currency's own table otherwise
+export async function quoteThroughPivot(
+  loadTable: (base: string) => Promise<RateTable>,
+  from: string,
+  to: string,
+  pivot = CROSS_RATE_PIVOT
+): Promise<PairRate> {
+  if (pivot && from !== pivot) {
+    const table = await loadTable(pivot);
+    if (canDeriveCrossRate(table, from, to)) {
+      return deriveCrossRate(table, from, to);
+    }
+  }
+
+  return deriveCrossRate(await loadTable(from), from, to);
+}
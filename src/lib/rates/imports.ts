@@ -0,0 +1,277 @@
+import { parseISO, isValid } from "date-fns";
+
+// Rate tables the user uploaded (CSV or open.er-api JSON), kept locally and
+// offered as named rate sources
+export interface ImportedRateTable {
+  id: string;
+  name: string;
+  fileName: string;
+  base: string;
+  rates: Record<string, number>;
+  updatedAt: number;
+  // Latest date given in the file, if any
+  date?: string;
+  importedAt: number;
+}
+
+export interface ImportRowError {
+  // Where in the file, e.g. "row 4" or "rates.EUR"
+  location: string;
+  // Line number, for CSV rows
+  row?: number;
+  message: string;
+}
+
+export interface ParsedRateFile {
+  // Null when no row could be used
+  table: Pick<ImportedRateTable, "base" | "rates" | "updatedAt" | "date"> | null;
+  errors: ImportRowError[];
+}
+
+export const IMPORTED_PROVIDER_PREFIX = "imported:";
+
+const STORAGE_KEY = "currency-whisper:imported-tables";
+
+const CODE = /^[A-Z]{3,5}$/;
+const PAIR = /^([A-Za-z]{3,5})\s*[/\-_: ]?\s*([A-Za-z]{3,5})$/;
+
+export function loadImportedTables(): ImportedRateTable[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ImportedRateTable[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveImportedTables(tables: ImportedRateTable[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(tables));
+  } catch (error) {
+    // Large tables can exceed the storage quota
+    console.warn("Could not persist imported rate tables:", error);
+  }
+}
+
+function parsePositive(value: string): number | null {
+  const rate = Number(value.trim());
+  return Number.isFinite(rate) && rate > 0 ? rate : null;
+}
+
+// Splits one CSV line, honouring double-quoted fields
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === "," && !quoted) {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+interface PairRow {
+  row: number;
+  from: string;
+  to: string;
+  rate: number;
+}
+
+// How far a redundant row's rate may be from the one implied by the other
+// rows before it's reported as inconsistent rather than just unused
+const CONSISTENCY_TOLERANCE_PERCENT = 0.5;
+
+// Expresses every pair against a single base, the currency most rows are
+// quoted from, by chaining through pairs already placed. Rows that never
+// connect to the base are reported, as are rows whose currencies were both
+// placed already: they're unused, and may disagree with the other rows.
+function tableFromPairs(rows: PairRow[], errors: ImportRowError[]) {
+  const counts = new Map<string, number>();
+  rows.forEach(({ from }) => counts.set(from, (counts.get(from) ?? 0) + 1));
+  const base = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+  const rates: Record<string, number> = { [base]: 1 };
+  let pending = rows;
+  let placed = true;
+  while (pending.length > 0 && placed) {
+    placed = false;
+    pending = pending.filter(({ row, from, to, rate }) => {
+      if (rates[from] !== undefined && rates[to] === undefined) {
+        rates[to] = rates[from] * rate;
+      } else if (rates[to] !== undefined && rates[from] === undefined) {
+        rates[from] = rates[to] / rate;
+      } else if (rates[from] === undefined) {
+        return true;
+      } else {
+        const implied = rates[to] / rates[from];
+        const percent = (Math.abs(rate - implied) / implied) * 100;
+        errors.push({
+          location: `row ${row}`,
+          row,
+          message:
+            percent > CONSISTENCY_TOLERANCE_PERCENT
+              ? `${from}/${to} rate ${rate} disagrees with ${Number(implied.toPrecision(6))} implied by the other rows`
+              : `${from}/${to} is already implied by the other rows, so it isn't used`,
+        });
+      }
+      placed = true;
+      return false;
+    });
+  }
+
+  pending.forEach(({ row, from, to }) =>
+    errors.push({
+      location: `row ${row}`,
+      row,
+      message: `${from}/${to} can't be related to ${base} through the other rows`,
+    })
+  );
+
+  delete rates[base];
+  return { base, rates };
+}
+
+// CSV with pair, rate and (optional) date columns, e.g. "USD/EUR,0.92,2024-07-01".
+// A header row naming the columns may put them in any order.
+export function parseRateCsv(text: string): ParsedRateFile {
+  const lines = text.split(/\r?\n/);
+  const errors: ImportRowError[] = [];
+  const rows: PairRow[] = [];
+  const seen = new Map<string, number>();
+  let latestDate: string | undefined;
+  let columns = { pair: 0, rate: 1, date: 2 };
+
+  lines.forEach((line, index) => {
+    const row = index + 1;
+    if (!line.trim()) {
+      return;
+    }
+
+    const fields = splitCsvLine(line);
+    if (row === 1 && parsePositive(fields[1] ?? "") === null) {
+      const names = fields.map((field) => field.toLowerCase());
+      if (names.includes("pair") && names.includes("rate")) {
+        columns = {
+          pair: names.indexOf("pair"),
+          rate: names.indexOf("rate"),
+          date: names.indexOf("date"),
+        };
+        return;
+      }
+    }
+
+    const pairMatch = PAIR.exec(fields[columns.pair] ?? "");
+    if (!pairMatch) {
+      errors.push({ location: `row ${row}`, row, message: `"${fields[columns.pair] ?? ""}" is not a currency pair like USD/EUR` });
+      return;
+    }
+    const from = pairMatch[1].toUpperCase();
+    const to = pairMatch[2].toUpperCase();
+    if (from === to) {
+      errors.push({ location: `row ${row}`, row, message: `${from}/${to} quotes a currency against itself` });
+      return;
+    }
+
+    const rate = parsePositive(fields[columns.rate] ?? "");
+    if (rate === null) {
+      errors.push({ location: `row ${row}`, row, message: `Rate "${fields[columns.rate] ?? ""}" is not a positive number` });
+      return;
+    }
+
+    const date = columns.date >= 0 ? fields[columns.date] : undefined;
+    if (date && !isValid(parseISO(date))) {
+      errors.push({ location: `row ${row}`, row, message: `Date "${date}" is not a YYYY-MM-DD date` });
+      return;
+    }
+
+    const key = [from, to].sort().join("/");
+    if (seen.has(key)) {
+      errors.push({ location: `row ${row}`, row, message: `${from}/${to} is already given on row ${seen.get(key)}` });
+      return;
+    }
+    seen.set(key, row);
+
+    if (date && (!latestDate || date > latestDate)) {
+      latestDate = date;
+    }
+    rows.push({ row, from, to, rate });
+  });
+
+  if (rows.length === 0) {
+    return { table: null, errors };
+  }
+
+  const { base, rates } = tableFromPairs(rows, errors);
+  // Rows that didn't fit the others are found last; list them in file order
+  errors.sort((a, b) => a.row! - b.row!);
+  return {
+    table: {
+      base,
+      rates,
+      updatedAt: latestDate ? parseISO(latestDate).getTime() : Date.now(),
+      date: latestDate,
+    },
+    errors,
+  };
+}
+
+// JSON in the open.er-api shape: { base_code, rates, time_last_update_unix }
+export function parseRateJson(text: string): ParsedRateFile {
+  let data: { base_code?: unknown; rates?: unknown; time_last_update_unix?: unknown };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { table: null, errors: [{ location: "file", message: "Not valid JSON" }] };
+  }
+
+  const errors: ImportRowError[] = [];
+  const base = typeof data?.base_code === "string" ? data.base_code.toUpperCase() : "";
+  if (!CODE.test(base)) {
+    errors.push({ location: "base_code", message: "Missing or invalid base currency code" });
+  }
+  if (!data?.rates || typeof data.rates !== "object") {
+    errors.push({ location: "rates", message: "Missing rates object" });
+  }
+  if (errors.length > 0) {
+    return { table: null, errors };
+  }
+
+  const rates: Record<string, number> = {};
+  Object.entries(data.rates as Record<string, unknown>).forEach(([code, rate]) => {
+    if (!CODE.test(code)) {
+      errors.push({ location: `rates.${code}`, message: `"${code}" is not a currency code` });
+    } else if (typeof rate !== "number" || !Number.isFinite(rate) || rate <= 0) {
+      errors.push({ location: `rates.${code}`, message: `Rate ${JSON.stringify(rate)} is not a positive number` });
+    } else if (code !== base) {
+      rates[code] = rate;
+    }
+  });
+
+  if (Object.keys(rates).length === 0) {
+    return { table: null, errors };
+  }
+
+  const updatedAt =
+    typeof data.time_last_update_unix === "number" ? data.time_last_update_unix * 1000 : Date.now();
+  return { table: { base, rates, updatedAt }, errors };
+}
+
+export function parseRateFile(fileName: string, text: string): ParsedRateFile {
+  return fileName.toLowerCase().endsWith(".json") || text.trimStart().startsWith("{")
+    ? parseRateJson(text)
+    : parseRateCsv(text);
+}
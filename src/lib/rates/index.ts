@@ -0,0 +1,178 @@
+import { withRateCache } from "./cache";
+import { createCoinGeckoProvider } from "./providers/coingecko";
+import { createEcbXmlProvider } from "./providers/ecb-xml";
+import { createFixtureProvider } from "./providers/fixture";
+import { createFrankfurterProvider } from "./providers/frankfurter";
+import { createImportedProvider } from "./providers/imported";
+import { createMetalsProvider } from "./providers/metals";
+import { createOpenErApiProvider } from "./providers/open-er-api";
+import { createStaticJsonProvider } from "./providers/static-json";
+import { getAssetClass } from "@/lib/currencies";
+import {
+  IMPORTED_PROVIDER_PREFIX,
+  ImportedRateTable,
+  loadImportedTables,
+  saveImportedTables,
+} from "./imports";
+import { RateProvider } from "./types";
+
+export * from "./types";
+export * from "./chain";
+export * from "./cache";
+export * from "./offline";
+export * from "./business-days";
+export * from "./cross-rates";
+export * from "./validation";
+export * from "./overrides";
+export * from "./lookup";
+export * from "./imports";
+export { MAX_ATTEMPTS, REQUEST_BUDGET_PER_MINUTE } from "./request";
+export { isAbortError } from "./provider-utils";
+
+// Fixture mode (VITE_RATE_FIXTURES=true) serves every conversion from the
+// local fixture files, so numbers and failures are repeatable offline
+export const FIXTURE_MODE = import.meta.env.VITE_RATE_FIXTURES === "true";
+
+const providers = new Map<string, RateProvider>();
+
+// Providers are served through the persistent rate cache unless opted out
+export function registerRateProvider(provider: RateProvider, { cache = true } = {}) {
+  providers.set(provider.id, cache ? withRateCache(provider) : provider);
+}
+
+export function getRateProviders(): RateProvider[] {
+  return Array.from(providers.values());
+}
+
+export function getRateProvider(id: string = DEFAULT_PROVIDER_ID): RateProvider {
+  return providers.get(id) ?? providers.get(DEFAULT_PROVIDER_ID)!;
+}
+
+// Adapter factories keyed by format, so a deployment can point one of them
+// at its own rate service via VITE_CUSTOM_RATES_URL / VITE_CUSTOM_RATES_FORMAT
+const PROVIDER_FACTORIES: Record<
+  string,
+  (url?: string, id?: string, name?: string) => RateProvider
+> = {
+  "open-er-api": createOpenErApiProvider,
+  frankfurter: createFrankfurterProvider,
+  "ecb-xml": createEcbXmlProvider,
+  "static-json": createStaticJsonProvider,
+};
+
+const customUrl = import.meta.env.VITE_CUSTOM_RATES_URL;
+
+if (FIXTURE_MODE) {
+  // Not cached, so switching scenarios takes effect on the next request
+  registerRateProvider(createFixtureProvider(), { cache: false });
+} else {
+  for (const factory of Object.values(PROVIDER_FACTORIES)) {
+    registerRateProvider(factory());
+  }
+
+  // Crypto prices come from their own source and are only used for pairs
+  // involving a token...
+  registerRateProvider(createCoinGeckoProvider(import.meta.env.VITE_CRYPTO_RATES_URL));
+
+  // ...and likewise for precious metals
+  registerRateProvider(
+    createMetalsProvider(import.meta.env.VITE_METAL_RATES_URL, import.meta.env.VITE_METAL_RATES_KEY)
+  );
+
+  if (import.meta.env.DEV) {
+    registerRateProvider(createFixtureProvider());
+  }
+
+  if (customUrl) {
+    const factory =
+      PROVIDER_FACTORIES[import.meta.env.VITE_CUSTOM_RATES_FORMAT ?? "open-er-api"] ??
+      createOpenErApiProvider;
+    registerRateProvider(
+      factory(customUrl, "custom", import.meta.env.VITE_CUSTOM_RATES_NAME ?? "Custom rate service")
+    );
+  }
+}
+
+// Uploaded tables are local data, so there is nothing to cache
+for (const table of loadImportedTables()) {
+  registerRateProvider(createImportedProvider(table), { cache: false });
+}
+
+// Saves an uploaded table and makes it available as a rate source
+export function addImportedTable(table: ImportedRateTable): RateProvider {
+  saveImportedTables([...loadImportedTables().filter(({ id }) => id !== table.id), table]);
+  registerRateProvider(createImportedProvider(table), { cache: false });
+  return providers.get(`${IMPORTED_PROVIDER_PREFIX}${table.id}`)!;
+}
+
+export function removeImportedTable(id: string) {
+  saveImportedTables(loadImportedTables().filter((table) => table.id !== id));
+  providers.delete(`${IMPORTED_PROVIDER_PREFIX}${id}`);
+}
+
+const BUILT_IN_DEFAULT_ID = customUrl ? "custom" : "open-er-api";
+
+// A VITE_RATE_PROVIDER naming no registered source (a typo, or a custom
+// service without VITE_CUSTOM_RATES_URL) falls back to the built-in default
+function resolveDefaultProviderId(): string {
+  const configured = import.meta.env.VITE_RATE_PROVIDER;
+  if (!configured || providers.has(configured)) {
+    return configured ?? BUILT_IN_DEFAULT_ID;
+  }
+  console.warn(
+    `VITE_RATE_PROVIDER names an unknown rate provider "${configured}"; using "${BUILT_IN_DEFAULT_ID}" instead.`
+  );
+  return BUILT_IN_DEFAULT_ID;
+}
+
+export const DEFAULT_PROVIDER_ID = FIXTURE_MODE ? "fixture" : resolveDefaultProviderId();
+
+// Live sources only: the bundled static file is a fixed snapshot, so it would
+// trigger false divergence warnings and be served as if it were current
+const DEFAULT_CHAIN = ["open-er-api", "frankfurter"];
+
+// Providers that quote fiat currencies, for the rate source picker. The
+// static snapshot isn't offered: nothing checks its age, so it would be shown
+// as current. It stays available as a fallback in VITE_RATE_PROVIDER_CHAIN.
+export function getFiatRateProviders(): RateProvider[] {
+  return getRateProviders().filter(
+    (provider) => (provider.assetClass ?? "fiat") === "fiat" && provider.id !== "static-json"
+  );
+}
+
+// Ordered fallback chain starting at the given provider. The rest of the
+// order comes from VITE_RATE_PROVIDER_CHAIN (comma-separated ids). Pairs
+// involving a non-fiat asset go to the providers for that asset class.
+export function getProviderChain(
+  primaryId: string = DEFAULT_PROVIDER_ID,
+  currencies: string[] = []
+): RateProvider[] {
+  if (FIXTURE_MODE) {
+    return [providers.get("fixture")!];
+  }
+
+  // An uploaded table was picked on purpose (e.g. budget rates), so don't
+  // silently fill gaps from live sources
+  if (primaryId.startsWith(IMPORTED_PROVIDER_PREFIX) && providers.has(primaryId)) {
+    return [providers.get(primaryId)!];
+  }
+
+  const assetClass = currencies.map(getAssetClass).find((kind) => kind !== "fiat");
+  if (assetClass) {
+    return getRateProviders().filter((provider) => provider.assetClass === assetClass);
+  }
+
+  const chainConfig = import.meta.env.VITE_RATE_PROVIDER_CHAIN;
+
+  // A custom service (e.g. the local stand-in) answers alone unless a chain is
+  // configured, so its failures show up and nothing is cross-checked against
+  // live providers
+  if (primaryId === "custom" && !chainConfig && providers.has(primaryId)) {
+    return [providers.get(primaryId)!];
+  }
+
+  const configured = chainConfig?.split(",").map((id) => id.trim()) ?? DEFAULT_CHAIN;
+  const ids = [primaryId, ...configured.filter((id) => id !== primaryId)];
+
+  return ids.filter((id) => providers.has(id)).map((id) => providers.get(id)!);
+}
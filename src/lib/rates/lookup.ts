@@ -0,0 +1,62 @@
+import { ChainOptions, ChainResult, fetchPairWithFallback } from "./chain";
+import { findLastKnownPair } from "./offline";
+import { RateOverride, findRateOverride, overridePair } from "./overrides";
+import { isAbortError } from "./provider-utils";
+import { RateChainError, RateProvider } from "./types";
+
+export interface RateLookup extends ChainResult {
+  // Served from last-known rates because no provider was reachable
+  offline: boolean;
+  // Manual rate that took precedence over the live one
+  override?: RateOverride;
+  // Live mid rate the override differs from, when it could be fetched
+  liveRate?: number;
+}
+
+// Quotes a pair the way the converter shows it: a valid override first,
+// then the provider chain, then last-known rates when nothing is reachable.
+// The live rate is still looked up under an override, for comparison.
+export async function lookupRate(
+  providers: RateProvider[],
+  from: string,
+  to: string,
+  options: ChainOptions = {}
+): Promise<RateLookup> {
+  const override = findRateOverride(from, to, options.date) ?? undefined;
+  let live: ChainResult;
+  let offline = false;
+
+  try {
+    // The live rate is only shown (and remembered for jump checks) when no
+    // override replaces it
+    live = await fetchPairWithFallback(providers, from, to, { checkJump: !override, ...options });
+  } catch (error) {
+    if (isAbortError(error) || !(error instanceof RateChainError)) {
+      throw error;
+    }
+    if (override) {
+      return { pair: overridePair(override, from, to), failures: error.failures, offline, override };
+    }
+
+    // No source reachable: keep converting from the last-known tables
+    const lastKnown = options.date ? null : findLastKnownPair(providers, from, to);
+    if (!lastKnown) {
+      throw error;
+    }
+    live = { pair: lastKnown, failures: error.failures };
+    offline = true;
+  }
+
+  if (!override) {
+    return { ...live, offline };
+  }
+
+  // Warnings about the live quote don't apply to the rate being used
+  return {
+    pair: overridePair(override, from, to),
+    failures: live.failures,
+    offline,
+    override,
+    liveRate: live.pair.rate,
+  };
+}
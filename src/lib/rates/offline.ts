@@ -0,0 +1,77 @@
+import { readCachedTable } from "./cache";
+import { CROSS_RATE_PIVOT, canDeriveCrossRate, deriveCrossRate } from "./cross-rates";
+import { PairRate, RateProvider, RateTable } from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Last-known rates older than this are shown with a warning
+export const STALE_WARNING_HOURS =
+  Number(import.meta.env.VITE_OFFLINE_WARN_HOURS) || 24;
+
+// Last-known rates older than this are refused outright
+export const STALE_LIMIT_HOURS =
+  Number(import.meta.env.VITE_OFFLINE_MAX_AGE_HOURS) || 24 * 7;
+
+export type Staleness = "fresh" | "stale" | "expired";
+
+export function getStaleness(updatedAt: number, now = Date.now()): Staleness {
+  const ageHours = (now - updatedAt) / HOUR_MS;
+  if (ageHours > STALE_LIMIT_HOURS) {
+    return "expired";
+  }
+  return ageHours > STALE_WARNING_HOURS ? "stale" : "fresh";
+}
+
+export class StaleRatesError extends Error {
+  updatedAt: number;
+
+  constructor(updatedAt: number) {
+    super(`Last known rates are older than ${STALE_LIMIT_HOURS} hours`);
+    this.name = "StaleRatesError";
+    this.updatedAt = updatedAt;
+  }
+}
+
+// Finds the most recently updated cached table for the base across the
+// given providers, ignoring whether it is past its refresh time.
+export function findLastKnownTable(
+  providers: RateProvider[],
+  base: string
+): RateTable | null {
+  let latest: RateTable | null = null;
+
+  for (const provider of providers) {
+    const table = readCachedTable(provider.id, base);
+    if (table && (!latest || table.updatedAt > latest.updatedAt)) {
+      latest = table;
+    }
+  }
+
+  return latest;
+}
+
+// Serves a pair from the last-known tables when no provider is reachable.
+// Returns null when nothing usable is cached, and throws StaleRatesError
+// when the cached data is past the configured limit.
+export function findLastKnownPair(
+  providers: RateProvider[],
+  from: string,
+  to: string
+): PairRate | null {
+  // Either the pivot table or the source currency's own table will do
+  const table = [CROSS_RATE_PIVOT, from]
+    .filter(Boolean)
+    .map((base) => findLastKnownTable(providers, base))
+    .filter((candidate) => candidate && canDeriveCrossRate(candidate, from, to))
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+
+  if (!table) {
+    return null;
+  }
+
+  if (getStaleness(table.updatedAt) === "expired") {
+    throw new StaleRatesError(table.updatedAt);
+  }
+
+  return { ...deriveCrossRate(table, from, to), cached: true };
+}
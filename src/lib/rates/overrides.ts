@@ -0,0 +1,74 @@
+import { format } from "date-fns";
+import { ISO_DAY } from "./business-days";
+import { PairRate } from "./types";
+
+// Fixed rates set by hand (e.g. treasury's monthly corporate rates) that
+// take precedence over every live provider while they are valid
+export interface RateOverride {
+  id: string;
+  from: string;
+  to: string;
+  rate: number;
+  // Inclusive ISO days; open-ended when unset
+  validFrom?: string;
+  validTo?: string;
+  note?: string;
+  createdAt: number;
+}
+
+export const OVERRIDE_PROVIDER_ID = "override";
+
+const STORAGE_KEY = "currency-whisper:rate-overrides";
+
+export function loadRateOverrides(): RateOverride[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as RateOverride[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveRateOverrides(overrides: RateOverride[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.warn("Could not persist rate overrides:", error);
+  }
+}
+
+function isValidOn({ validFrom, validTo }: RateOverride, day: string) {
+  // ISO days compare correctly as strings
+  return (!validFrom || validFrom <= day) && (!validTo || day <= validTo);
+}
+
+// The override covering a pair on a day (today by default), in either
+// direction. The most recently created one wins when several overlap.
+export function findRateOverride(
+  from: string,
+  to: string,
+  date = format(new Date(), ISO_DAY),
+  overrides = loadRateOverrides()
+): RateOverride | null {
+  return (
+    overrides
+      .filter(
+        (override) =>
+          ((override.from === from && override.to === to) ||
+            (override.from === to && override.to === from)) &&
+          isValidOn(override, date)
+      )
+      .sort((a, b) => b.createdAt - a.createdAt)[0] ?? null
+  );
+}
+
+export function overridePair(override: RateOverride, from: string, to: string): PairRate {
+  return {
+    from,
+    to,
+    rate: override.from === from ? override.rate : 1 / override.rate,
+    base: override.from,
+    updatedAt: override.createdAt,
+    provider: OVERRIDE_PROVIDER_ID,
+  };
+}
@@ -0,0 +1,152 @@
+import {
+  PairRate,
+  RateProvider,
+  RateProviderError,
+  RateSeries,
+  RateTable,
+  RequestOptions,
+} from "./types";
+import { requestWithRetry } from "./request";
+import { validateRate, validateRateTable } from "./validation";
+
+interface TableProviderOptions {
+  id: string;
+  name: string;
+  loadTable: (base: string, options?: RequestOptions) => Promise<RateTable>;
+  loadHistoricalTable?: (
+    base: string,
+    date: string,
+    options?: RequestOptions
+  ) => Promise<RateTable>;
+  loadSeries?: (
+    from: string,
+    to: string,
+    start: string,
+    end: string,
+    options?: RequestOptions
+  ) => Promise<RateSeries>;
+  listCurrencies?: (options?: RequestOptions) => Promise<string[]>;
+  fetchPair?: (from: string, to: string, options?: RequestOptions) => Promise<PairRate>;
+}
+
+// Builds a RateProvider around a "load a table for this base" function,
+// deriving the pair lookup and currency list from the table when the
+// adapter has no dedicated endpoint for them.
+export function createTableProvider(options: TableProviderOptions): RateProvider {
+  let lastUpdated: number | null = null;
+
+  const fetchLatest = async (base: string, request?: RequestOptions) => {
+    const table = validateRateTable(await options.loadTable(base, request), base);
+    lastUpdated = table.updatedAt;
+    return table;
+  };
+
+  return {
+    id: options.id,
+    name: options.name,
+    fetchLatest,
+    fetchPair: async (from, to, request) => {
+      if (options.fetchPair) {
+        const pair = await options.fetchPair(from, to, request);
+        lastUpdated = pair.updatedAt;
+        return pair;
+      }
+      return pairFromTable(await fetchLatest(from, request), to);
+    },
+    listCurrencies: async (request) => {
+      if (options.listCurrencies) {
+        return options.listCurrencies(request);
+      }
+      const table = await fetchLatest("USD", request);
+      return Object.keys(table.rates).sort();
+    },
+    fetchHistorical: options.loadHistoricalTable
+      ? async (base, date, request) =>
+          validateRateTable(await options.loadHistoricalTable!(base, date, request), base)
+      : undefined,
+    fetchSeries: options.loadSeries,
+    lastUpdated: () => lastUpdated,
+  };
+}
+
+export async function fetchJson<T>(
+  url: string,
+  provider: string,
+  options: RequestOptions = {}
+): Promise<T> {
+  const text = await fetchText(url, provider, options);
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new RateProviderError("Provider returned malformed JSON", provider);
+  }
+}
+
+export async function fetchText(
+  url: string,
+  provider: string,
+  options: RequestOptions = {}
+): Promise<string> {
+  const response = await requestWithRetry(url, provider, options);
+  return response.text();
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+// Rejects with an AbortError once the signal fires, for waits that have no
+// request of their own to cancel
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new DOMException("The operation was aborted.", "AbortError");
+  }
+}
+
+export function pairFromTable(table: RateTable, to: string): PairRate {
+  const quoted = table.base === to ? 1 : table.rates[to];
+
+  if (quoted === undefined) {
+    throw new RateProviderError(
+      `No ${table.base}/${to} rate available`,
+      table.provider
+    );
+  }
+  const rate = validateRate(quoted, to, table.provider);
+
+  return {
+    from: table.base,
+    to,
+    rate,
+    base: table.base,
+    updatedAt: table.updatedAt,
+    provider: table.provider,
+    fetchedAt: table.fetchedAt,
+    nextUpdateAt: table.nextUpdateAt,
+    cached: table.cached,
+    date: table.date,
+  };
+}
+
+// Re-expresses a table against another currency it contains, for sources
+// that only publish a single base (ECB, static files).
+export function rebaseTable(table: RateTable, base: string): RateTable {
+  if (table.base === base) {
+    return table;
+  }
+
+  const baseRate = table.rates[base];
+  if (!baseRate) {
+    throw new RateProviderError(
+      `${base} is not quoted by this provider`,
+      table.provider
+    );
+  }
+
+  const rates: Record<string, number> = { [table.base]: 1 / baseRate };
+  for (const [code, rate] of Object.entries(table.rates)) {
+    rates[code] = code === base ? 1 : rate / baseRate;
+  }
+
+  return { ...table, base, rates };
+}
@@ -0,0 +1,110 @@
+import { getCurrenciesByClass, getCurrency } from "@/lib/currencies";
+import { createTableProvider, fetchJson } from "../provider-utils";
+import { RateProvider, RateProviderError, RateTable, RequestOptions } from "../types";
+
+const DEFAULT_BASE_URL = "https://api.coingecko.com/api/v3";
+
+// Crypto prices move by the minute, so a table is only reused briefly rather
+// than for the rate cache's default hour
+const PRICE_TTL_MS = 60 * 1000;
+
+// { bitcoin: { usd: 64000.12, eur: 59000.3 }, ethereum: { ... } }
+type SimplePriceResponse = Record<string, Record<string, number>>;
+
+// Crypto prices from CoinGecko's /simple/price endpoint. Tables for a fiat
+// base quote every configured token; tables for a token base quote every
+// fiat currency plus the other tokens (crossed through USD).
+export function createCoinGeckoProvider(
+  baseUrl = DEFAULT_BASE_URL,
+  id = "coingecko",
+  name = "CoinGecko"
+): RateProvider {
+  const tokens = () => getCurrenciesByClass("crypto").filter((token) => token.coinId);
+  const fiatCodes = () => getCurrenciesByClass("fiat").map((currency) => currency.code);
+
+  const loadPrices = async (
+    coinIds: string[],
+    vsCurrencies: string[],
+    options?: RequestOptions
+  ) => {
+    const url =
+      `${baseUrl}/simple/price?ids=${coinIds.join(",")}` +
+      `&vs_currencies=${vsCurrencies.map((code) => code.toLowerCase()).join(",")}` +
+      "&include_last_updated_at=true";
+    const data = await fetchJson<SimplePriceResponse>(url, id, options);
+
+    if (!data || typeof data !== "object") {
+      throw new RateProviderError("Invalid price data received", id);
+    }
+    return data;
+  };
+
+  const loadTable = async (base: string, options?: RequestOptions): Promise<RateTable> => {
+    const baseToken = getCurrency(base);
+    const rates: Record<string, number> = { [base]: 1 };
+    let updatedAt = 0;
+
+    if (baseToken?.assetClass === "crypto") {
+      const others = tokens().filter((token) => token.code !== base);
+      const data = await loadPrices(
+        [baseToken.coinId!, ...others.map((token) => token.coinId!)],
+        fiatCodes(),
+        options
+      );
+      const prices = data[baseToken.coinId!];
+
+      if (!prices) {
+        throw new RateProviderError(`No price for ${base}`, id);
+      }
+
+      for (const code of fiatCodes()) {
+        if (prices[code.toLowerCase()]) {
+          rates[code] = prices[code.toLowerCase()];
+        }
+      }
+      for (const token of others) {
+        const usd = data[token.coinId!]?.usd;
+        if (usd && prices.usd) {
+          rates[token.code] = prices.usd / usd;
+        }
+      }
+      updatedAt = prices.last_updated_at * 1000;
+    } else {
+      const data = await loadPrices(
+        tokens().map((token) => token.coinId!),
+        [base],
+        options
+      );
+
+      for (const token of tokens()) {
+        const price = data[token.coinId!]?.[base.toLowerCase()];
+        if (price) {
+          rates[token.code] = 1 / price;
+          updatedAt = Math.max(updatedAt, data[token.coinId!].last_updated_at * 1000);
+        }
+      }
+    }
+
+    if (Object.keys(rates).length === 1) {
+      throw new RateProviderError(`No crypto prices quoted in ${base}`, id);
+    }
+
+    return {
+      base,
+      rates,
+      updatedAt: updatedAt || Date.now(),
+      nextUpdateAt: Date.now() + PRICE_TTL_MS,
+      provider: id,
+    };
+  };
+
+  return {
+    ...createTableProvider({
+      id,
+      name,
+      loadTable,
+      listCurrencies: async () => tokens().map((token) => token.code),
+    }),
+    assetClass: "crypto",
+  };
+}
@@ -0,0 +1,142 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { nextBusinessDay } from "../business-days";
+import { deriveCrossRate } from "../cross-rates";
+import { createTableProvider, fetchText, rebaseTable } from "../provider-utils";
+import { RateProvider, RateProviderError, RateTable, RequestOptions } from "../types";
+
+const ECB_BASE = "https://www.ecb.europa.eu/stats/eurofxref";
+const DEFAULT_URL = `${ECB_BASE}/eurofxref-daily.xml`;
+// The 90-day file covers recent dates; the full file goes back to 1999
+const RECENT_HISTORY_URL = `${ECB_BASE}/eurofxref-hist-90d.xml`;
+const FULL_HISTORY_URL = `${ECB_BASE}/eurofxref-hist.xml`;
+const RECENT_HISTORY_DAYS = 85;
+
+// Last Sunday of a month, as a UTC day number
+function lastSunday(year: number, month: number): number {
+  const last = new Date(Date.UTC(year, month + 1, 0));
+  return last.getUTCDate() - last.getUTCDay();
+}
+
+// The ECB publishes its reference rates at around 16:00 CET on each TARGET
+// business day, i.e. 15:00 UTC in winter and 14:00 UTC in summer time
+export function ecbPublicationTime(day: string): number {
+  const [year, month, date] = day.split("-").map(Number);
+  const afterMarch = month > 3 || (month === 3 && date >= lastSunday(year, 2));
+  const beforeOctober = month < 10 || (month === 10 && date < lastSunday(year, 9));
+  return Date.UTC(year, month - 1, date, afterMarch && beforeOctober ? 14 : 15);
+}
+
+function tableFromCube(cube: Element, id: string): RateTable {
+  const day = cube.getAttribute("time")!;
+  const rates: Record<string, number> = { EUR: 1 };
+  for (const entry of Array.from(cube.getElementsByTagName("Cube"))) {
+    const currency = entry.getAttribute("currency");
+    const rate = parseFloat(entry.getAttribute("rate") ?? "");
+    if (currency && !isNaN(rate)) {
+      rates[currency] = rate;
+    }
+  }
+
+  return {
+    base: "EUR",
+    rates,
+    updatedAt: ecbPublicationTime(day),
+    nextUpdateAt: ecbPublicationTime(nextBusinessDay(day)),
+    provider: id,
+    date: day,
+  };
+}
+
+// Parses every day in an ECB eurofxref file, newest first. The daily file
+// holds one day, the historical files one per business day:
+// <Cube><Cube time="2024-05-01"><Cube currency="USD" rate="1.07"/>...</Cube></Cube>
+export function parseEcbXmlDays(xml: string, id: string): RateTable[] {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const days = Array.from(doc.getElementsByTagName("Cube")).filter((cube) =>
+    cube.hasAttribute("time")
+  );
+
+  if (doc.getElementsByTagName("parsererror").length > 0 || days.length === 0) {
+    throw new RateProviderError("Invalid ECB XML received", id);
+  }
+
+  return days
+    .map((cube) => tableFromCube(cube, id))
+    .sort((a, b) => b.date!.localeCompare(a.date!));
+}
+
+// The most recent day in an eurofxref file
+export function parseEcbXml(xml: string, id: string): RateTable {
+  return parseEcbXmlDays(xml, id)[0];
+}
+
+// ECB euro foreign exchange reference rates. Pairs without EUR are
+// triangulated through EUR, as the ECB itself describes. The URLs can point
+// at local copies of the files (VITE_ECB_DAILY_URL / VITE_ECB_HISTORY_URL)
+// for offline use and tests.
+export function createEcbXmlProvider(
+  url = import.meta.env.VITE_ECB_DAILY_URL ?? DEFAULT_URL,
+  id = "ecb-xml",
+  name = "ECB reference rates (XML)",
+  historyUrl = import.meta.env.VITE_ECB_HISTORY_URL
+): RateProvider {
+  // Historical files are large, so each is fetched and parsed once
+  const histories = new Map<string, Promise<RateTable[]>>();
+
+  const loadHistory = (date: string, options?: RequestOptions) => {
+    const source =
+      historyUrl ??
+      (differenceInCalendarDays(new Date(), parseISO(date)) <= RECENT_HISTORY_DAYS
+        ? RECENT_HISTORY_URL
+        : FULL_HISTORY_URL);
+
+    if (!histories.has(source)) {
+      const loading = fetchText(source, id, options).then((xml) => parseEcbXmlDays(xml, id));
+      // Don't keep a failed or cancelled download around
+      loading.catch(() => histories.delete(source));
+      histories.set(source, loading);
+    }
+    return histories.get(source)!;
+  };
+
+  const provider = createTableProvider({
+    id,
+    name,
+    // Latest tables are keyed without a date, like every other provider's
+    loadTable: async (base, options) =>
+      rebaseTable(
+        { ...parseEcbXml(await fetchText(url, id, options), id), date: undefined },
+        base
+      ),
+    // Rates for a day are only final once published, so a date resolves to
+    // the latest reference day on or before it
+    loadHistoricalTable: async (base, date, options) => {
+      const table = (await loadHistory(date, options)).find((day) => day.date! <= date);
+      if (!table) {
+        throw new RateProviderError(`No ECB reference rates on or before ${date}`, id);
+      }
+      return rebaseTable(table, base);
+    },
+    loadSeries: async (from, to, start, end, options) => {
+      const days = await loadHistory(start, options);
+      const points = days
+        .filter((day) => day.date! >= start && day.date! <= end)
+        .reverse()
+        .flatMap((day) => {
+          try {
+            return [{ date: day.date!, rate: deriveCrossRate(day, from, to).rate }];
+          } catch {
+            // Currency not quoted that day (e.g. before it joined the list)
+            return [];
+          }
+        });
+
+      if (points.length === 0) {
+        throw new RateProviderError(`No ECB reference rates for ${from}/${to}`, id);
+      }
+      return { from, to, points, provider: id };
+    },
+  });
+
+  return { ...provider, official: true, pivot: "EUR" };
+}
@@ -0,0 +1,185 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { ISO_DAY, isBusinessDay } from "../business-days";
+import {
+  createTableProvider,
+  pairFromTable,
+  rebaseTable,
+  throwIfAborted,
+} from "../provider-utils";
+import { REQUEST_TIMEOUT_MS } from "../request";
+import { RateProvider, RateProviderError, RateTable, RequestOptions } from "../types";
+import { OpenErApiResponse } from "./open-er-api";
+
+// Failure modes QA can switch on with VITE_RATE_FIXTURE_SCENARIO or a
+// ?rate-scenario= query parameter
+export type FixtureScenario =
+  | "ok"
+  | "timeout"
+  | "rate-limited"
+  | "malformed"
+  | "missing-currency";
+
+interface FixtureHistory {
+  base: string;
+  // ISO day -> rates against the base
+  rates: Record<string, Record<string, number>>;
+}
+
+// Fixture files live in /fixtures/rates so the local HTTP stand-in
+// (scripts/rates-standin.mjs) can serve exactly the same numbers
+const latestFiles = import.meta.glob<OpenErApiResponse>("/fixtures/rates/latest/*.json", {
+  import: "default",
+});
+const historyFiles = import.meta.glob<FixtureHistory>("/fixtures/rates/history/*.json", {
+  import: "default",
+});
+const errorFiles = import.meta.glob<string>("/fixtures/rates/errors/*.json", {
+  query: "?raw",
+  import: "default",
+});
+
+export function getFixtureScenario(): FixtureScenario {
+  const fromUrl =
+    typeof window !== "undefined"
+      ? new URLSearchParams(window.location.search).get("rate-scenario")
+      : null;
+  return (fromUrl ?? import.meta.env.VITE_RATE_FIXTURE_SCENARIO ?? "ok") as FixtureScenario;
+}
+
+function toRateTable(data: OpenErApiResponse, id: string): RateTable {
+  return {
+    base: data.base_code,
+    rates: data.rates,
+    updatedAt: data.time_last_update_unix * 1000,
+    nextUpdateAt: data.time_next_update_unix * 1000,
+    provider: id,
+  };
+}
+
+// Applies the active failure scenario, returning the raw latest-table file
+// the scenario calls for
+async function loadScenarioFile(id: string, { signal }: RequestOptions): Promise<string | null> {
+  throwIfAborted(signal);
+
+  switch (getFixtureScenario()) {
+    case "timeout":
+      // Hangs for as long as a real request may take, then fails the same way
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, REQUEST_TIMEOUT_MS);
+        signal?.addEventListener("abort", () => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+      throwIfAborted(signal);
+      throw new RateProviderError("Request to the rate provider timed out", id);
+    case "rate-limited":
+      throw new RateProviderError("Rate provider responded with HTTP 429", id, 429, 30_000);
+    case "malformed":
+      return errorFiles["/fixtures/rates/errors/malformed.json"]();
+    case "missing-currency":
+      return errorFiles["/fixtures/rates/errors/missing-currency.json"]();
+    default:
+      return null;
+  }
+}
+
+async function loadLatest(
+  base: string,
+  id: string,
+  options: RequestOptions = {}
+): Promise<RateTable> {
+  const raw = await loadScenarioFile(id, options);
+  if (raw !== null) {
+    let data: OpenErApiResponse;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      throw new RateProviderError("Provider returned malformed JSON", id);
+    }
+    return rebaseTable(toRateTable(data, id), base);
+  }
+
+  const file =
+    latestFiles[`/fixtures/rates/latest/${base}.json`] ??
+    latestFiles["/fixtures/rates/latest/USD.json"];
+  return rebaseTable(toRateTable(await file(), id), base);
+}
+
+async function loadHistory(): Promise<FixtureHistory> {
+  return historyFiles["/fixtures/rates/history/USD.json"]();
+}
+
+const EPOCH = parseISO("2000-01-01");
+
+// Stable per-currency phase so every currency drifts differently
+function seed(code: string) {
+  return Array.from(code).reduce((sum, char) => sum * 31 + char.charCodeAt(0), 7) % 997;
+}
+
+// Days the history file doesn't cover are generated from the latest table:
+// the same day always yields the same numbers, so charts for recent ranges
+// are still reproducible
+function generatedTableForDay(latest: RateTable, day: string): RateTable {
+  const index = differenceInCalendarDays(parseISO(day), EPOCH);
+  const rates: Record<string, number> = {};
+
+  for (const [code, mid] of Object.entries(latest.rates)) {
+    const phase = seed(code);
+    const drift =
+      code === latest.base
+        ? 0
+        : 0.03 * Math.sin(index / 45 + phase) + 0.008 * Math.sin(index / 6 + phase * 2);
+    rates[code] = Number((mid * (1 + drift)).toPrecision(6));
+  }
+
+  return { ...latest, rates, updatedAt: parseISO(day).getTime(), date: day };
+}
+
+function historyTableForDay(history: FixtureHistory, day: string, id: string): RateTable | null {
+  const rates = history.rates[day];
+  if (!rates) {
+    return null;
+  }
+
+  return {
+    base: history.base,
+    rates: { ...rates, [history.base]: 1 },
+    updatedAt: parseISO(day).getTime(),
+    provider: id,
+    date: day,
+  };
+}
+
+// Deterministic provider for development and tests: latest tables, history
+// and failure scenarios all come from local files, with no network access
+export function createFixtureProvider(id = "fixture", name = "Local fixtures"): RateProvider {
+  return createTableProvider({
+    id,
+    name,
+    loadTable: (base, options) => loadLatest(base, id, options),
+    loadHistoricalTable: async (base, date, options) => {
+      const history = await loadHistory();
+      const table =
+        historyTableForDay(history, date, id) ??
+        generatedTableForDay(await loadLatest(history.base, id, options), date);
+      return rebaseTable(table, base);
+    },
+    loadSeries: async (from, to, start, end, options) => {
+      const history = await loadHistory();
+      const latest = await loadLatest(history.base, id, options);
+      const points = [];
+
+      for (let day = parseISO(start); day <= parseISO(end); day = addDays(day, 1)) {
+        const date = format(day, ISO_DAY);
+        if (isBusinessDay(date)) {
+          const table = historyTableForDay(history, date, id) ?? generatedTableForDay(latest, date);
+          points.push({ date, rate: pairFromTable(rebaseTable(table, from), to).rate });
+        }
+      }
+      return { from, to, points, provider: id };
+    },
+    listCurrencies: async (options) =>
+      Object.keys((await loadLatest("USD", id, options)).rates).sort(),
+  });
+}
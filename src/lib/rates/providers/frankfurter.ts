@@ -0,0 +1,84 @@
+import { createTableProvider, fetchJson } from "../provider-utils";
+import { RateProvider, RateProviderError, RateTable } from "../types";
+import { validateRate } from "../validation";
+
+const DEFAULT_BASE_URL = "https://api.frankfurter.app";
+
+// Frankfurter omits the base currency from its rates
+interface FrankfurterResponse {
+  amount: number;
+  base: string;
+  date: string;
+  rates: Record<string, number>;
+}
+
+interface FrankfurterSeriesResponse {
+  base: string;
+  start_date: string;
+  end_date: string;
+  rates: Record<string, Record<string, number>>;
+}
+
+function toRateTable(data: FrankfurterResponse, id: string): RateTable {
+  if (!data || !data.base || !data.rates) {
+    throw new RateProviderError("Invalid rate table received", id);
+  }
+
+  return {
+    base: data.base,
+    rates: { ...data.rates, [data.base]: 1 },
+    updatedAt: Date.parse(data.date),
+    provider: id,
+  };
+}
+
+export function createFrankfurterProvider(
+  baseUrl = DEFAULT_BASE_URL,
+  id = "frankfurter",
+  name = "Frankfurter"
+): RateProvider {
+  return createTableProvider({
+    id,
+    name,
+    loadTable: async (base, options) => {
+      const url = `${baseUrl}/latest?from=${base}`;
+      return toRateTable(await fetchJson<FrankfurterResponse>(url, id, options), id);
+    },
+    // Frankfurter itself resolves non-business days to the prior one
+    loadHistoricalTable: async (base, date, options) => {
+      const url = `${baseUrl}/${date}?from=${base}`;
+      const data = await fetchJson<FrankfurterResponse>(url, id, options);
+      return { ...toRateTable(data, id), date: data.date };
+    },
+    loadSeries: async (from, to, start, end, options) => {
+      const url = `${baseUrl}/${start}..${end}?from=${from}&to=${to}`;
+      const data = await fetchJson<FrankfurterSeriesResponse>(url, id, options);
+
+      if (!data || !data.rates) {
+        throw new RateProviderError("Invalid rate series received", id);
+      }
+
+      const points = Object.entries(data.rates)
+        .filter(([, rates]) => rates[to])
+        .map(([date, rates]) => ({ date, rate: rates[to] }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+      return { from, to, points, provider: id };
+    },
+    fetchPair: async (from, to, options) => {
+      const url = `${baseUrl}/latest?from=${from}&to=${to}`;
+      const table = toRateTable(await fetchJson<FrankfurterResponse>(url, id, options), id);
+      if (table.rates[to] === undefined) {
+        throw new RateProviderError(`No ${from}/${to} rate available`, id);
+      }
+      const rate = validateRate(table.rates[to], to, id);
+
+      return { from, to, rate, base: from, updatedAt: table.updatedAt, provider: id };
+    },
+    listCurrencies: async (options) => {
+      const url = `${baseUrl}/currencies`;
+      const names = await fetchJson<Record<string, string>>(url, id, options);
+      return Object.keys(names).sort();
+    },
+  });
+}
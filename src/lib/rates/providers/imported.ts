@@ -0,0 +1,26 @@
+import { IMPORTED_PROVIDER_PREFIX, ImportedRateTable } from "../imports";
+import { createTableProvider, rebaseTable } from "../provider-utils";
+import { RateProvider } from "../types";
+
+// Serves an uploaded rate table, re-based to whichever currency is asked for
+export function createImportedProvider(table: ImportedRateTable): RateProvider {
+  const id = `${IMPORTED_PROVIDER_PREFIX}${table.id}`;
+
+  return createTableProvider({
+    id,
+    name: table.name,
+    loadTable: async (base) =>
+      rebaseTable(
+        {
+          base: table.base,
+          rates: table.rates,
+          updatedAt: table.updatedAt,
+          provider: id,
+          fetchedAt: table.importedAt,
+          date: table.date,
+        },
+        base
+      ),
+    listCurrencies: async () => [table.base, ...Object.keys(table.rates)].sort(),
+  });
+}
@@ -0,0 +1,60 @@
+import { getCurrenciesByClass } from "@/lib/currencies";
+import { createTableProvider, fetchJson, rebaseTable } from "../provider-utils";
+import { RateProvider, RateProviderError } from "../types";
+
+const DEFAULT_BASE_URL = "https://metals-api.com/api";
+
+// Metals are quoted as troy ounces per unit of the base currency
+interface MetalsApiResponse {
+  success: boolean;
+  base: string;
+  timestamp: number;
+  rates: Record<string, number>;
+  error?: { info?: string };
+}
+
+// Metal prices from a metals-api.com style /latest endpoint. The free tier
+// only quotes against USD, so the fiat currencies are requested alongside
+// the metals and the table is rebased locally.
+export function createMetalsProvider(
+  baseUrl = DEFAULT_BASE_URL,
+  apiKey?: string,
+  id = "metals-api",
+  name = "Metals-API"
+): RateProvider {
+  const symbols = () =>
+    [...getCurrenciesByClass("metal"), ...getCurrenciesByClass("fiat")]
+      .map((currency) => currency.code)
+      .join(",");
+
+  return {
+    ...createTableProvider({
+      id,
+      name,
+      loadTable: async (base, options) => {
+        const key = apiKey ? `&access_key=${apiKey}` : "";
+        const data = await fetchJson<MetalsApiResponse>(
+          `${baseUrl}/latest?base=USD&symbols=${symbols()}${key}`,
+          id,
+          options
+        );
+
+        if (!data || data.success === false || !data.rates) {
+          throw new RateProviderError(data?.error?.info ?? "Invalid metal rates received", id);
+        }
+
+        return rebaseTable(
+          {
+            base: data.base,
+            rates: { ...data.rates, [data.base]: 1 },
+            updatedAt: data.timestamp * 1000,
+            provider: id,
+          },
+          base
+        );
+      },
+      listCurrencies: async () => getCurrenciesByClass("metal").map((metal) => metal.code),
+    }),
+    assetClass: "metal",
+  };
+}
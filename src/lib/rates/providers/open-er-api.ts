@@ -0,0 +1,41 @@
+import { createTableProvider, fetchJson } from "../provider-utils";
+import { RateProvider, RateProviderError } from "../types";
+
+// Free API that doesn't require an API key
+const DEFAULT_BASE_URL = "https://open.er-api.com/v6";
+
+export interface OpenErApiResponse {
+  result: "success" | "error";
+  base_code: string;
+  time_last_update_unix: number;
+  time_next_update_unix?: number;
+  rates: Record<string, number>;
+}
+
+export function createOpenErApiProvider(
+  baseUrl = DEFAULT_BASE_URL,
+  id = "open-er-api",
+  name = "ExchangeRate-API (open.er-api.com)"
+): RateProvider {
+  return createTableProvider({
+    id,
+    name,
+    loadTable: async (base, options) => {
+      const data = await fetchJson<OpenErApiResponse>(`${baseUrl}/latest/${base}`, id, options);
+
+      if (!data || data.result === "error" || !data.rates) {
+        throw new RateProviderError("Invalid rate table received", id);
+      }
+
+      return {
+        base: data.base_code ?? base,
+        rates: data.rates,
+        updatedAt: data.time_last_update_unix * 1000,
+        nextUpdateAt: data.time_next_update_unix
+          ? data.time_next_update_unix * 1000
+          : undefined,
+        provider: id,
+      };
+    },
+  });
+}
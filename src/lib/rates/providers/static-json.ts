@@ -0,0 +1,47 @@
+import { createTableProvider, fetchJson, rebaseTable } from "../provider-utils";
+import { RateProvider, RateProviderError } from "../types";
+
+const DEFAULT_URL = "/rates/static.json";
+
+interface StaticRateFile {
+  base?: string;
+  base_code?: string;
+  rates: Record<string, number>;
+  updatedAt?: string;
+  time_last_update_unix?: number;
+}
+
+// Serves a single rate table from a JSON file, either in the open.er-api
+// shape ({ base_code, rates, time_last_update_unix }) or the simpler
+// { base, rates, updatedAt } shape.
+export function createStaticJsonProvider(
+  url = DEFAULT_URL,
+  id = "static-json",
+  name = "Static rate file"
+): RateProvider {
+  return createTableProvider({
+    id,
+    name,
+    loadTable: async (base, options) => {
+      const data = await fetchJson<StaticRateFile>(url, id, options);
+      const tableBase = data?.base_code ?? data?.base;
+
+      if (!tableBase || !data.rates) {
+        throw new RateProviderError("Invalid rate file", id);
+      }
+
+      const updatedAt = data.time_last_update_unix
+        ? data.time_last_update_unix * 1000
+        : Date.parse(data.updatedAt);
+      // Without a timestamp there's no telling how old the rates are
+      if (!Number.isFinite(updatedAt)) {
+        throw new RateProviderError("Rate file has no valid updatedAt timestamp", id);
+      }
+
+      return rebaseTable(
+        { base: tableBase, rates: data.rates, updatedAt, provider: id },
+        base
+      );
+    },
+  });
+}
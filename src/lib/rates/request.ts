@@ -0,0 +1,154 @@
+import { isAbortError } from "./provider-utils";
+import { RateProviderError, RequestOptions } from "./types";
+
+// Attempts per request, including the first one
+export const MAX_ATTEMPTS = Number(import.meta.env.VITE_RATE_MAX_ATTEMPTS) || 3;
+
+// How long a single attempt may take before it is abandoned and retried
+export const REQUEST_TIMEOUT_MS =
+  (Number(import.meta.env.VITE_RATE_REQUEST_TIMEOUT_SECONDS) || 10) * 1000;
+
+// Network requests each provider may make per minute from this browser
+export const REQUEST_BUDGET_PER_MINUTE = Number(import.meta.env.VITE_RATE_REQUEST_BUDGET) || 30;
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8_000;
+// A Retry-After longer than this isn't worth waiting for; fall through to
+// the next provider instead
+const MAX_RETRY_AFTER_MS = 30_000;
+const BUDGET_WINDOW_MS = 60_000;
+const BUDGET_PREFIX = "currency-whisper:request-log:";
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+// Exponential backoff with full jitter
+function backoffDelay(attempt: number) {
+  return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortError = () => new DOMException("The operation was aborted.", "AbortError");
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Sliding one-minute window of request times per provider, kept in
+// localStorage so every open tab draws on the same budget
+function takeFromBudget(provider: string): boolean {
+  const key = `${BUDGET_PREFIX}${provider}`;
+  const now = Date.now();
+
+  try {
+    const log: number[] = JSON.parse(localStorage.getItem(key) ?? "[]");
+    const recent = log.filter((time) => now - time < BUDGET_WINDOW_MS);
+    if (recent.length >= REQUEST_BUDGET_PER_MINUTE) {
+      return false;
+    }
+    localStorage.setItem(key, JSON.stringify([...recent, now]));
+  } catch {
+    // Without storage the budget can't be shared; let the request through
+  }
+  return true;
+}
+
+// Fetches a provider URL, retrying network errors, timeouts, 5xx and 429
+// responses with backoff (or the server's Retry-After), within the request
+// budget
+export async function requestWithRetry(
+  url: string,
+  provider: string,
+  {
+    signal,
+    onRetry,
+    maxAttempts = MAX_ATTEMPTS,
+    timeoutMs = REQUEST_TIMEOUT_MS,
+  }: RequestOptions = {}
+): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    if (!takeFromBudget(provider)) {
+      throw new RateProviderError(
+        `Request budget for ${provider} used up; try again in a minute`,
+        provider
+      );
+    }
+
+    let error: RateProviderError;
+    let retryAfter: number | undefined;
+    // A stalled provider must not hold up the rest of the chain
+    const timeout = AbortSignal.timeout(timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+      if (response.ok) {
+        return response;
+      }
+
+      retryAfter =
+        response.status === 429 || response.status === 503
+          ? parseRetryAfter(response.headers.get("Retry-After"))
+          : undefined;
+      error = new RateProviderError(
+        `Rate provider responded with HTTP ${response.status}`,
+        provider,
+        response.status,
+        retryAfter
+      );
+
+      if (!isRetryableStatus(response.status)) {
+        throw error;
+      }
+    } catch (caught) {
+      if (caught instanceof RateProviderError) {
+        throw caught;
+      }
+      // A cancelled request is not a provider failure; let it propagate as is
+      if (isAbortError(caught) || signal?.aborted) {
+        throw caught;
+      }
+      error = new RateProviderError(
+        timeout.aborted
+          ? "Request to the rate provider timed out"
+          : "Could not reach the rate provider",
+        provider
+      );
+    }
+
+    if (attempt >= maxAttempts || (retryAfter ?? 0) > MAX_RETRY_AFTER_MS) {
+      throw error;
+    }
+
+    onRetry?.(attempt + 1, maxAttempts);
+    await sleep(retryAfter ?? backoffDelay(attempt), signal);
+  }
+}
@@ -0,0 +1,118 @@
+import { AssetClass } from "@/lib/currencies";
+
+// A full table of rates quoted against a single base currency
+export interface RateTable {
+  base: string;
+  rates: Record<string, number>;
+  // Time the provider last updated the table (ms since epoch)
+  updatedAt: number;
+  // Time the provider expects to publish the next update, if it tells us
+  nextUpdateAt?: number;
+  provider: string;
+  // Time this client downloaded the table
+  fetchedAt?: number;
+  // Whether the table was served from the local cache
+  cached?: boolean;
+  // Business day a historical table is for ("2023-04-28")
+  date?: string;
+}
+
+// A single quoted pair, e.g. 1 USD = 0.92 EUR
+export interface PairRate {
+  from: string;
+  to: string;
+  rate: number;
+  // Base currency of the table the provider quoted the rate in
+  base: string;
+  updatedAt: number;
+  provider: string;
+  fetchedAt?: number;
+  // When the provider publishes its next update, if it says
+  nextUpdateAt?: number;
+  cached?: boolean;
+  date?: string;
+  // Currencies the rate was derived through, e.g. ["EUR", "USD", "INR"]
+  path?: string[];
+  // Significant digits the rate is accurate to
+  precision?: number;
+}
+
+// Daily rates for one pair, oldest first
+export interface RateSeries {
+  from: string;
+  to: string;
+  points: { date: string; rate: number }[];
+  provider: string;
+}
+
+// Per-request options every provider method accepts
+export interface RequestOptions {
+  // Aborts the underlying network requests when the result is no longer needed
+  signal?: AbortSignal;
+  // Called before each retry of a failed request, with the upcoming attempt
+  onRetry?: (attempt: number, maxAttempts: number) => void;
+  // Attempts per request, instead of MAX_ATTEMPTS
+  maxAttempts?: number;
+  // Time each attempt may take, instead of REQUEST_TIMEOUT_MS
+  timeoutMs?: number;
+}
+
+export interface RateProvider {
+  id: string;
+  name: string;
+  // Kind of asset the provider quotes; fiat when absent
+  assetClass?: AssetClass;
+  // Publishes official reference rates (a central bank) rather than market quotes
+  official?: boolean;
+  // Currency to derive cross rates through, instead of CROSS_RATE_PIVOT
+  pivot?: string;
+  fetchLatest(base: string, options?: RequestOptions): Promise<RateTable>;
+  fetchPair(from: string, to: string, options?: RequestOptions): Promise<PairRate>;
+  listCurrencies(options?: RequestOptions): Promise<string[]>;
+  // Table as published on a past business day; absent when the source
+  // only offers current rates
+  fetchHistorical?(base: string, date: string, options?: RequestOptions): Promise<RateTable>;
+  // Daily rates between two ISO days inclusive, business days only
+  fetchSeries?(
+    from: string,
+    to: string,
+    start: string,
+    end: string,
+    options?: RequestOptions
+  ): Promise<RateSeries>;
+  // Provider timestamp of the most recent table this adapter served
+  lastUpdated(): number | null;
+}
+
+export class RateProviderError extends Error {
+  provider: string;
+  status?: number;
+  // How long the provider asked us to wait (Retry-After), in ms
+  retryAfter?: number;
+
+  constructor(message: string, provider: string, status?: number, retryAfter?: number) {
+    super(message);
+    this.name = "RateProviderError";
+    this.provider = provider;
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export interface ProviderFailure {
+  provider: string;
+  message: string;
+  // The provider answered but its data failed validation
+  invalid?: boolean;
+}
+
+// Raised when every provider in a fallback chain failed
+export class RateChainError extends Error {
+  failures: ProviderFailure[];
+
+  constructor(message: string, failures: ProviderFailure[]) {
+    super(message);
+    this.name = "RateChainError";
+    this.failures = failures;
+  }
+}
@@ -0,0 +1,88 @@
+import { IMPORTED_PROVIDER_PREFIX } from "./imports";
+import { OVERRIDE_PROVIDER_ID } from "./overrides";
+import { PairRate, RateProviderError, RateTable } from "./types";
+
+const STORAGE_PREFIX = "currency-whisper:last-rate:";
+
+// Flag a rate that moved more than this percent since it was last served
+export const DEFAULT_JUMP_THRESHOLD = Number(import.meta.env.VITE_RATE_JUMP_PERCENT) || 5;
+
+// A provider answered, but with data we refuse to convert with
+export class RateValidationError extends RateProviderError {
+  constructor(message: string, provider: string) {
+    super(message, provider);
+    this.name = "RateValidationError";
+  }
+}
+
+// Rejects non-numeric, zero, negative and non-finite quotes
+export function validateRate(rate: unknown, code: string, provider: string): number {
+  if (typeof rate !== "number" || !Number.isFinite(rate) || rate <= 0) {
+    throw new RateValidationError(`${provider} returned an invalid ${code} rate (${String(rate)})`, provider);
+  }
+  return rate;
+}
+
+// Checks a provider's table is for the base that was asked for
+export function validateRateTable(table: RateTable, requestedBase: string): RateTable {
+  if (table.base !== requestedBase) {
+    throw new RateValidationError(
+      `${table.provider} returned ${table.base} rates when asked for ${requestedBase}`,
+      table.provider
+    );
+  }
+  return table;
+}
+
+export interface RateJump {
+  previousRate: number;
+  previousUpdatedAt: number;
+  // Relative change since the previous rate, in percent (signed)
+  percent: number;
+}
+
+interface RememberedRate {
+  rate: number;
+  updatedAt: number;
+}
+
+// Per provider, so switching sources isn't mistaken for a move
+function storageKey(provider: string, from: string, to: string) {
+  return `${STORAGE_PREFIX}${provider}:${from}:${to}`;
+}
+
+// Compares a pair against the last rate the same provider served for it and
+// remembers the new one; returns the jump when the move exceeds the
+// threshold. Uploaded tables and manual overrides are fixed on purpose, so
+// they're never checked.
+export function checkRateJump(
+  pair: PairRate,
+  threshold = DEFAULT_JUMP_THRESHOLD
+): RateJump | null {
+  if (pair.provider.startsWith(IMPORTED_PROVIDER_PREFIX) || pair.provider === OVERRIDE_PROVIDER_ID) {
+    return null;
+  }
+
+  let previous: RememberedRate | null = null;
+  const key = storageKey(pair.provider, pair.from, pair.to);
+
+  try {
+    const raw = localStorage.getItem(key);
+    previous = raw ? JSON.parse(raw) : null;
+    localStorage.setItem(
+      key,
+      JSON.stringify({ rate: pair.rate, updatedAt: pair.updatedAt })
+    );
+  } catch {
+    // Without storage there is nothing to compare against
+  }
+
+  if (!previous || previous.rate <= 0) {
+    return null;
+  }
+
+  const percent = ((pair.rate - previous.rate) / previous.rate) * 100;
+  return Math.abs(percent) > threshold
+    ? { previousRate: previous.rate, previousUpdatedAt: previous.updatedAt, percent }
+    : null;
+}
@@ -0,0 +1,54 @@
+// What a bank, card or bureau actually pays out compared to the mid-market
+// rate: a percentage margin on the rate plus an optional flat fee
+export interface SpreadProfile {
+  id: string;
+  name: string;
+  // Margin taken off the mid-market rate, in percent
+  percent: number;
+  // Flat fee charged before converting, in FEE_CURRENCY
+  fixedFee: number;
+}
+
+// Built-in fees are priced in one currency and converted into the source
+// currency at the mid rate, so the kiosk charges $5 whether you hand over
+// yen, bitcoin or gold
+export const FEE_CURRENCY = "USD";
+
+// Typical retail markups; real ones vary by institution and card
+export const SPREAD_PROFILES: SpreadProfile[] = [
+  { id: "mid", name: "Mid-market (no markup)", percent: 0, fixedFee: 0 },
+  { id: "card", name: "Card network", percent: 1, fixedFee: 0 },
+  { id: "bank", name: "Bank transfer", percent: 3, fixedFee: 0 },
+  { id: "kiosk", name: "Airport kiosk", percent: 10, fixedFee: 5 },
+];
+
+export interface SpreadBreakdown {
+  // Amount received in the target currency after markup and fee
+  received: number;
+  // Target units per source unit actually paid
+  effectiveRate: number;
+  // Cost of the markup and fee, in each currency
+  costInTarget: number;
+  costInSource: number;
+}
+
+// midRate is target units per source unit, so this works for weights as
+// well as currency amounts. The profile's fixedFee must already be in the
+// source currency.
+export function applySpread(
+  amount: number,
+  midRate: number,
+  profile: Pick<SpreadProfile, "percent" | "fixedFee">
+): SpreadBreakdown {
+  const midValue = amount * midRate;
+  const net = Math.max(amount - profile.fixedFee, 0);
+  const received = net * midRate * (1 - profile.percent / 100);
+  const costInTarget = midValue - received;
+
+  return {
+    received,
+    effectiveRate: amount > 0 ? received / amount : 0,
+    costInTarget,
+    costInSource: midRate > 0 ? costInTarget / midRate : 0,
+  };
+}
@@ -0,0 +1,112 @@
+// Pairs pinned to the header ticker and the snapshots their changes are
+// measured against
+export interface TickerPair {
+  from: string;
+  to: string;
+}
+
+export interface TickerSnapshot {
+  rate: number;
+  // Provider timestamp of the rate
+  updatedAt: number;
+}
+
+export interface TickerHistory {
+  latest: TickerSnapshot;
+  // The rate before the provider's most recent update
+  previous?: TickerSnapshot;
+  // First rate seen on the current (local) day
+  dayStart: { date: string; rate: number };
+}
+
+export interface TickerQuote {
+  pair: TickerPair;
+  rate: number;
+  changeSincePrevious?: number;
+  changeSinceDayStart?: number;
+}
+
+const PAIRS_KEY = "currency-whisper:ticker-pairs";
+const HISTORY_PREFIX = "currency-whisper:ticker:";
+
+export const DEFAULT_TICKER_PAIRS: TickerPair[] = [
+  { from: "USD", to: "EUR" },
+  { from: "USD", to: "INR" },
+  { from: "EUR", to: "GBP" },
+  { from: "USD", to: "JPY" },
+];
+
+// Refresh bounds, so a provider announcing its next update days away (or
+// already overdue) still gets polled at a sensible interval
+export const MIN_TICKER_REFRESH_MS = 60 * 1000;
+export const MAX_TICKER_REFRESH_MS = 60 * 60 * 1000;
+
+export function loadTickerPairs(): TickerPair[] {
+  try {
+    const stored = localStorage.getItem(PAIRS_KEY);
+    return stored ? (JSON.parse(stored) as TickerPair[]) : DEFAULT_TICKER_PAIRS;
+  } catch {
+    return DEFAULT_TICKER_PAIRS;
+  }
+}
+
+export function saveTickerPairs(pairs: TickerPair[]) {
+  try {
+    localStorage.setItem(PAIRS_KEY, JSON.stringify(pairs));
+  } catch {
+    // Storage unavailable; the selection only lasts for this session
+  }
+}
+
+function historyKey({ from, to }: TickerPair) {
+  return `${HISTORY_PREFIX}${from}:${to}`;
+}
+
+function percentChange(from: number, to: number) {
+  return ((to - from) / from) * 100;
+}
+
+// Records a freshly fetched rate for a pinned pair and works out how far it
+// has moved. Re-reading a cached rate doesn't count as a new snapshot.
+export function recordTickerRate(
+  pair: TickerPair,
+  snapshot: TickerSnapshot,
+  now = new Date()
+): TickerQuote {
+  const today = now.toLocaleDateString("en-CA");
+  let history: TickerHistory | null = null;
+
+  try {
+    const stored = localStorage.getItem(historyKey(pair));
+    history = stored ? (JSON.parse(stored) as TickerHistory) : null;
+  } catch {
+    history = null;
+  }
+
+  const next: TickerHistory = {
+    latest: snapshot,
+    previous:
+      history && history.latest.updatedAt !== snapshot.updatedAt
+        ? history.latest
+        : history?.previous,
+    dayStart:
+      history && history.dayStart.date === today
+        ? history.dayStart
+        : { date: today, rate: snapshot.rate },
+  };
+
+  try {
+    localStorage.setItem(historyKey(pair), JSON.stringify(next));
+  } catch {
+    // Best-effort, like the rate cache
+  }
+
+  return {
+    pair,
+    rate: snapshot.rate,
+    changeSincePrevious: next.previous
+      ? percentChange(next.previous.rate, snapshot.rate)
+      : undefined,
+    changeSinceDayStart: percentChange(next.dayStart.rate, snapshot.rate),
+  };
+}
@@ -1,6 +1,9 @@
 
 import { useState } from "react";
 import CurrencyConverter from "@/components/CurrencyConverter";
+import RateAlerts from "@/components/RateAlerts";
+import RateOverrides from "@/components/RateOverrides";
+import RateTicker from "@/components/RateTicker";
 import { toast } from "@/components/ui/use-toast";
 
 const Index = () => {
@@ -21,6 +24,9 @@ const Index = () => {
               <p>Reg: 12317664</p>
             </div>
           </div>
+          <div className="mt-4">
+            <RateTicker />
+          </div>
         </div>
       </header>
 
@@ -38,11 +44,30 @@ const Index = () => {
               <ul className="space-y-1 list-disc list-inside">
                 <li>"Convert 10000 Indian Rupees to US Dollars"</li>
                 <li>"How much is 200 USD in INR?"</li>
+                <li>"Convert 3 lakh INR to USD"</li>
                 <li>"Exchange 50 EUR to GBP"</li>
+                <li>"100 USD to EUR, GBP and JPY"</li>
                 <li>"What is the current exchange rate for USD to EUR?"</li>
+                <li>"How strong is the yen against the dollar?"</li>
               </ul>
             </div>
           </div>
+
+          <div className="mt-8 bg-white rounded-xl shadow-lg p-6 md:p-8 border-l-4 border-pinkAccent">
+            <h2 className="text-xl md:text-2xl font-semibold text-evergreen mb-6">
+              Watch a rate
+            </h2>
+
+            <RateAlerts />
+          </div>
+
+          <div className="mt-8 bg-white rounded-xl shadow-lg p-6 md:p-8 border-l-4 border-pinkAccent">
+            <h2 className="text-xl md:text-2xl font-semibold text-evergreen mb-6">
+              Corporate rates
+            </h2>
+
+            <RateOverrides />
+          </div>
         </div>
       </main>
 
@@ -1 +1,45 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Id of the rate provider selected by default (e.g. "frankfurter")
+  readonly VITE_RATE_PROVIDER?: string;
+  // Optional self-hosted rate service, registered as the "custom" provider
+  readonly VITE_CUSTOM_RATES_URL?: string;
+  readonly VITE_CUSTOM_RATES_FORMAT?: "open-er-api" | "frankfurter" | "ecb-xml" | "static-json";
+  readonly VITE_CUSTOM_RATES_NAME?: string;
+  // ECB eurofxref files, e.g. the samples the local stand-in serves under /ecb/ (defaults to the ECB site)
+  readonly VITE_ECB_DAILY_URL?: string;
+  readonly VITE_ECB_HISTORY_URL?: string;
+  // Comma-separated provider ids tried in order after the selected one
+  readonly VITE_RATE_PROVIDER_CHAIN?: string;
+  // Flag rates that differ between two providers by more than this percent
+  readonly VITE_RATE_DIVERGENCE_PERCENT?: string;
+  // Warn when a rate moved more than this percent since it was last served
+  readonly VITE_RATE_JUMP_PERCENT?: string;
+  // Attempts per provider request, including the first (default 3)
+  readonly VITE_RATE_MAX_ATTEMPTS?: string;
+  // Seconds each attempt may take before it counts as failed (default 10)
+  readonly VITE_RATE_REQUEST_TIMEOUT_SECONDS?: string;
+  // Network requests each provider may get per minute from this browser
+  readonly VITE_RATE_REQUEST_BUDGET?: string;
+  // Minutes between background checks of rate alert rules (default 5)
+  readonly VITE_ALERT_POLL_MINUTES?: string;
+  // Offline mode: warn about last-known rates after this many hours...
+  readonly VITE_OFFLINE_WARN_HOURS?: string;
+  // ...and refuse to convert with them after this many
+  readonly VITE_OFFLINE_MAX_AGE_HOURS?: string;
+  // Currency whose single table all pairs are derived from (default USD,
+  // empty to fetch one table per source currency)
+  readonly VITE_CROSS_RATE_PIVOT?: string;
+  // Extra crypto tokens as "CODE:coin-id:Name", comma-separated
+  readonly VITE_CRYPTO_TOKENS?: string;
+  // Base URL of the CoinGecko-compatible crypto price API
+  readonly VITE_CRYPTO_RATES_URL?: string;
+  // metals-api.com compatible endpoint and access key for XAU/XAG/XPT/XPD
+  readonly VITE_METAL_RATES_URL?: string;
+  readonly VITE_METAL_RATES_KEY?: string;
+  // "true" serves all rates from /fixtures/rates instead of the network
+  readonly VITE_RATE_FIXTURES?: string;
+  // Failure mode in fixture mode: timeout, rate-limited, malformed, missing-currency
+  readonly VITE_RATE_FIXTURE_SCENARIO?: string;
+}